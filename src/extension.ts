@@ -17,7 +17,7 @@ export function activate(context: vscode.ExtensionContext): void {
 
     const configurationChangeListener = vscode.workspace.onDidChangeConfiguration(async e => {
         if (e.affectsConfiguration('cursor-provider-bridge')) {
-            await handleConfigurationChange(e, context);
+            await handleConfigurationChange(context);
         }
     });
     context.subscriptions.push(configurationChangeListener);
@@ -162,43 +162,9 @@ function showSetupSkippedMessage(): void {
     });
 }
 
-async function handleConfigurationChange(event: vscode.ConfigurationChangeEvent, context: vscode.ExtensionContext): Promise<void> {
-    const logger = getLogger();
-    
-    try {
-        if (!serviceManager) {
-            logger.info('Configuration changed but no service manager exists, initializing services');
-            initializeServices(context);
-            return;
-        }
-
-        const changedProviderUrl = event.affectsConfiguration('cursor-provider-bridge.providerUrl');
-        const changedNgrokSettings = event.affectsConfiguration('cursor-provider-bridge.ngrokDomain') ||
-                                    event.affectsConfiguration('cursor-provider-bridge.ngrokRegion') ||
-                                    event.affectsConfiguration('cursor-provider-bridge.ngrokAuthToken');
-        
-        if (changedProviderUrl || changedNgrokSettings) {
-            logger.info('Configuration change detected that affects bridge connection');
-            
-            try {
-                await serviceManager.handleConfigurationChange();
-                
-                const status = serviceManager.getBridgeStatus();
-                if (status.isRunning) {
-                    vscode.window.showInformationMessage('Bridge restarted successfully due to configuration change');
-                }
-            } catch (error) {
-                logger.error('Failed to handle configuration change', error);
-                vscode.window.showWarningMessage(
-                    `Configuration updated but bridge restart failed: ${error instanceof Error ? error.message : String(error)}`
-                );
-            }
-        } else {
-            logger.debug('Configuration changed but no bridge restart needed');
-        }
-        
-    } catch (error) {
-        logger.error('Error handling configuration change', error);
+async function handleConfigurationChange(context: vscode.ExtensionContext): Promise<void> {
+    if (!serviceManager) {
+        getLogger().info('Configuration changed but no service manager exists, initializing services');
         initializeServices(context);
     }
 }
@@ -351,6 +317,80 @@ function registerCommands(context: vscode.ExtensionContext): void {
             }
         }),
 
+        vscode.commands.registerCommand('cursor-provider-bridge.showRequestInspector', () => {
+            if (requiresSetup()) {
+                return;
+            }
+
+            if (!serviceManager) {
+                initializeServices(context);
+            }
+
+            try {
+                serviceManager.showRequestInspector();
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to open request inspector: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        }),
+
+        vscode.commands.registerCommand('cursor-provider-bridge.exportHistory', async () => {
+            if (requiresSetup()) {
+                return;
+            }
+
+            if (!serviceManager) {
+                initializeServices(context);
+            }
+
+            try {
+                await serviceManager.exportHistory();
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to export request history: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        }),
+
+        vscode.commands.registerCommand('cursor-provider-bridge.clearHistory', async () => {
+            if (requiresSetup()) {
+                return;
+            }
+
+            if (!serviceManager) {
+                initializeServices(context);
+            }
+
+            try {
+                await serviceManager.clearHistory();
+                vscode.window.showInformationMessage('Request history cleared');
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to clear request history: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        }),
+
+        vscode.commands.registerCommand('cursor-provider-bridge.clearResponseCache', async () => {
+            if (requiresSetup()) {
+                return;
+            }
+
+            if (!serviceManager) {
+                initializeServices(context);
+            }
+
+            try {
+                await serviceManager.clearResponseCache();
+                vscode.window.showInformationMessage('Response cache cleared');
+            } catch (error) {
+                vscode.window.showErrorMessage(
+                    `Failed to clear response cache: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        }),
+
         vscode.commands.registerCommand('cursor-provider-bridge.runSetup', async () => {
             try {
                 const setupResult = await setupManager.showSetupWizard();
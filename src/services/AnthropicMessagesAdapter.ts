@@ -0,0 +1,378 @@
+import * as crypto from 'crypto';
+import { formatSseEvent } from '../utils/sse';
+import {
+    ChatCompletionChunk,
+    ChatCompletionResponse,
+    ChatContentPart,
+    ChatMessage,
+    ChatStreamTranslator,
+    ToolCall,
+    ToolCallDelta
+} from '../types';
+
+type AnthropicContentBlock =
+    | { readonly type: 'text'; readonly text: string }
+    | { readonly type: 'image'; readonly source: AnthropicImageSource }
+    | { readonly type: 'tool_use'; readonly id: string; readonly name: string; readonly input: unknown }
+    | {
+        readonly type: 'tool_result';
+        readonly tool_use_id: string;
+        readonly content?: string | ReadonlyArray<AnthropicContentBlock>;
+        readonly is_error?: boolean;
+    };
+
+interface AnthropicImageSource {
+    readonly type: 'base64' | 'url';
+    readonly media_type?: string;
+    readonly data?: string;
+    readonly url?: string;
+}
+
+interface AnthropicMessage {
+    readonly role: 'user' | 'assistant';
+    readonly content: string | ReadonlyArray<AnthropicContentBlock>;
+}
+
+interface AnthropicTool {
+    readonly name: string;
+    readonly description?: string;
+    readonly input_schema: unknown;
+}
+
+export interface AnthropicMessagesRequest {
+    readonly model: string;
+    readonly messages: ReadonlyArray<AnthropicMessage>;
+    readonly system?: string | ReadonlyArray<{ readonly type: 'text'; readonly text: string }>;
+    readonly max_tokens: number;
+    readonly temperature?: number;
+    readonly top_p?: number;
+    readonly top_k?: number;
+    readonly stop_sequences?: ReadonlyArray<string>;
+    readonly stream?: boolean;
+    readonly tools?: ReadonlyArray<AnthropicTool>;
+    readonly tool_choice?: { readonly type: 'auto' | 'any' | 'tool' | 'none'; readonly name?: string };
+}
+
+const STOP_REASONS: Readonly<Record<string, string>> = {
+    stop: 'end_turn',
+    length: 'max_tokens',
+    tool_calls: 'tool_use',
+    function_call: 'tool_use',
+    content_filter: 'end_turn'
+};
+
+export function validateAnthropicRequest(request: AnthropicMessagesRequest): string | null {
+    if (!request.model) {
+        return 'model: Field required';
+    }
+    if (!Array.isArray(request.messages) || request.messages.length === 0) {
+        return 'messages: Field required and must be a non-empty array';
+    }
+    if (typeof request.max_tokens !== 'number' || request.max_tokens < 1) {
+        return 'max_tokens: Field required and must be a positive integer';
+    }
+    return null;
+}
+
+export function toChatCompletionRequest(request: AnthropicMessagesRequest, model: string): Record<string, unknown> {
+    const messages: ChatMessage[] = [];
+
+    const system = typeof request.system === 'string'
+        ? request.system
+        : request.system?.map(block => block.text).join('\n');
+    if (system) {
+        messages.push({ role: 'system', content: system });
+    }
+
+    for (const message of request.messages) {
+        messages.push(...convertMessage(message));
+    }
+
+    const body: Record<string, unknown> = {
+        model,
+        messages,
+        max_tokens: request.max_tokens,
+        temperature: request.temperature,
+        top_p: request.top_p,
+        top_k: request.top_k,
+        stop: request.stop_sequences,
+        stream: request.stream ?? false
+    };
+
+    if (request.stream) {
+        body.stream_options = { include_usage: true };
+    }
+
+    if (request.tools?.length) {
+        body.tools = request.tools.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.input_schema }
+        }));
+        body.tool_choice = convertToolChoice(request.tool_choice);
+    }
+
+    return body;
+}
+
+function convertMessage(message: AnthropicMessage): ChatMessage[] {
+    if (typeof message.content === 'string') {
+        return [{ role: message.role, content: message.content }];
+    }
+
+    const converted: ChatMessage[] = [];
+    const parts: ChatContentPart[] = [];
+    const toolCalls: ToolCall[] = [];
+
+    for (const block of message.content) {
+        switch (block.type) {
+            case 'text':
+                parts.push({ type: 'text', text: block.text });
+                break;
+            case 'image':
+                parts.push({ type: 'image_url', image_url: { url: imageSourceToUrl(block.source) } });
+                break;
+            case 'tool_use':
+                toolCalls.push({
+                    id: block.id,
+                    type: 'function',
+                    function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) }
+                });
+                break;
+            case 'tool_result':
+                converted.push({
+                    role: 'tool',
+                    tool_call_id: block.tool_use_id,
+                    content: toolResultText(block.content, block.is_error)
+                });
+                break;
+        }
+    }
+
+    if (message.role === 'assistant') {
+        const text = parts.map(part => part.type === 'text' ? part.text : '').join('');
+        if (text || toolCalls.length > 0) {
+            converted.push({
+                role: 'assistant',
+                content: text || null,
+                ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+            });
+        }
+    } else if (parts.length > 0) {
+        const textOnly = parts.every(part => part.type === 'text');
+        converted.push({
+            role: 'user',
+            content: textOnly ? parts.map(part => part.type === 'text' ? part.text : '').join('') : parts
+        });
+    }
+
+    return converted;
+}
+
+function imageSourceToUrl(source: AnthropicImageSource): string {
+    if (source.type === 'url' && source.url) {
+        return source.url;
+    }
+    return `data:${source.media_type ?? 'image/png'};base64,${source.data ?? ''}`;
+}
+
+function toolResultText(content: string | ReadonlyArray<AnthropicContentBlock> | undefined, isError?: boolean): string {
+    const text = typeof content === 'string'
+        ? content
+        : (content ?? [])
+            .map(block => block.type === 'text' ? block.text : '')
+            .join('');
+    return isError ? `Error: ${text}` : text;
+}
+
+function convertToolChoice(choice: AnthropicMessagesRequest['tool_choice']): unknown {
+    switch (choice?.type) {
+        case 'any':
+            return 'required';
+        case 'tool':
+            return { type: 'function', function: { name: choice.name } };
+        case 'none':
+            return 'none';
+        default:
+            return 'auto';
+    }
+}
+
+function parseToolArguments(args: string | undefined): unknown {
+    if (!args) {
+        return {};
+    }
+    try {
+        return JSON.parse(args);
+    } catch {
+        return { raw: args };
+    }
+}
+
+function createMessageId(): string {
+    return `msg_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+export function fromChatCompletion(response: ChatCompletionResponse, model: string): Record<string, unknown> {
+    const choice = response.choices?.[0];
+    const content: Record<string, unknown>[] = [];
+
+    if (choice?.message?.content) {
+        content.push({ type: 'text', text: choice.message.content });
+    }
+
+    for (const toolCall of choice?.message?.tool_calls ?? []) {
+        content.push({
+            type: 'tool_use',
+            id: toolCall.id ?? `toolu_${crypto.randomBytes(12).toString('hex')}`,
+            name: toolCall.function?.name ?? '',
+            input: parseToolArguments(toolCall.function?.arguments)
+        });
+    }
+
+    return {
+        id: createMessageId(),
+        type: 'message',
+        role: 'assistant',
+        model,
+        content,
+        stop_reason: STOP_REASONS[choice?.finish_reason ?? 'stop'] ?? 'end_turn',
+        stop_sequence: null,
+        usage: {
+            input_tokens: response.usage?.prompt_tokens ?? 0,
+            output_tokens: response.usage?.completion_tokens ?? 0
+        }
+    };
+}
+
+export function formatAnthropicError(statusCode: number, message: string): Record<string, unknown> {
+    const errorTypes: Readonly<Record<number, string>> = {
+        400: 'invalid_request_error',
+        401: 'authentication_error',
+        404: 'not_found_error',
+        429: 'rate_limit_error',
+        529: 'overloaded_error'
+    };
+
+    return {
+        type: 'error',
+        error: { type: errorTypes[statusCode] ?? 'api_error', message }
+    };
+}
+
+export class AnthropicStreamTranslator implements ChatStreamTranslator {
+    private readonly messageId = createMessageId();
+    private blockIndex = -1;
+    private openBlock: 'text' | 'tool_use' | null = null;
+    private readonly toolBlocks = new Map<number, number>();
+    private stopReason = 'end_turn';
+    private inputTokens = 0;
+    private outputTokens = 0;
+
+    constructor(private readonly model: string) {}
+
+    start(): string {
+        return formatSseEvent({
+            type: 'message_start',
+            message: {
+                id: this.messageId,
+                type: 'message',
+                role: 'assistant',
+                model: this.model,
+                content: [],
+                stop_reason: null,
+                stop_sequence: null,
+                usage: { input_tokens: 0, output_tokens: 0 }
+            }
+        }, 'message_start');
+    }
+
+    translate(chunk: ChatCompletionChunk): string {
+        let output = '';
+
+        if (chunk.usage) {
+            this.inputTokens = chunk.usage.prompt_tokens ?? this.inputTokens;
+            this.outputTokens = chunk.usage.completion_tokens ?? this.outputTokens;
+        }
+
+        const choice = chunk.choices?.[0];
+        if (!choice) {
+            return output;
+        }
+
+        if (choice.delta?.content) {
+            if (this.openBlock !== 'text') {
+                output += this.closeBlock();
+                output += this.openContentBlock('text', { type: 'text', text: '' });
+            }
+            output += this.blockDelta({ type: 'text_delta', text: choice.delta.content });
+        }
+
+        for (const toolCall of choice.delta?.tool_calls ?? []) {
+            output += this.translateToolCall(toolCall);
+        }
+
+        if (choice.finish_reason) {
+            this.stopReason = STOP_REASONS[choice.finish_reason] ?? 'end_turn';
+        }
+
+        return output;
+    }
+
+    finish(): string {
+        return this.closeBlock() +
+            formatSseEvent({
+                type: 'message_delta',
+                delta: { stop_reason: this.stopReason, stop_sequence: null },
+                usage: { input_tokens: this.inputTokens, output_tokens: this.outputTokens }
+            }, 'message_delta') +
+            formatSseEvent({ type: 'message_stop' }, 'message_stop');
+    }
+
+    error(message: string): string {
+        return formatSseEvent(formatAnthropicError(500, message), 'error');
+    }
+
+    private translateToolCall(toolCall: ToolCallDelta): string {
+        const toolIndex = toolCall.index ?? 0;
+        let output = '';
+
+        if (!this.toolBlocks.has(toolIndex)) {
+            output += this.closeBlock();
+            output += this.openContentBlock('tool_use', {
+                type: 'tool_use',
+                id: toolCall.id ?? `toolu_${crypto.randomBytes(12).toString('hex')}`,
+                name: toolCall.function?.name ?? '',
+                input: {}
+            });
+            this.toolBlocks.set(toolIndex, this.blockIndex);
+        }
+
+        if (toolCall.function?.arguments && this.toolBlocks.get(toolIndex) === this.blockIndex) {
+            output += this.blockDelta({ type: 'input_json_delta', partial_json: toolCall.function.arguments });
+        }
+
+        return output;
+    }
+
+    private openContentBlock(type: 'text' | 'tool_use', contentBlock: Record<string, unknown>): string {
+        this.blockIndex++;
+        this.openBlock = type;
+        return formatSseEvent({
+            type: 'content_block_start',
+            index: this.blockIndex,
+            content_block: contentBlock
+        }, 'content_block_start');
+    }
+
+    private blockDelta(delta: Record<string, unknown>): string {
+        return formatSseEvent({ type: 'content_block_delta', index: this.blockIndex, delta }, 'content_block_delta');
+    }
+
+    private closeBlock(): string {
+        if (this.openBlock === null) {
+            return '';
+        }
+        this.openBlock = null;
+        return formatSseEvent({ type: 'content_block_stop', index: this.blockIndex }, 'content_block_stop');
+    }
+}
@@ -0,0 +1,132 @@
+import { BridgeError, QueueTimeoutError, RequestPriority } from '../types';
+
+export interface ConcurrencySlot {
+    readonly waitMs: number;
+    release(): void;
+}
+
+export interface ProviderQueueSnapshot {
+    readonly provider: string;
+    readonly active: number;
+    readonly queued: number;
+}
+
+interface QueuedRequest {
+    readonly priority: RequestPriority;
+    readonly grant: () => void;
+    readonly timer: NodeJS.Timeout;
+}
+
+interface ProviderQueue {
+    limit: number;
+    active: number;
+    averageHoldMs: number;
+    readonly waiting: QueuedRequest[];
+}
+
+const PRIORITY_RANK: Readonly<Record<RequestPriority, number>> = { high: 0, normal: 1, low: 2 };
+
+export class ConcurrencyLimiter {
+    private static readonly HOLD_TIME_SMOOTHING = 0.2;
+    private static readonly INITIAL_HOLD_MS = 10000;
+
+    private readonly queues = new Map<string, ProviderQueue>();
+
+    acquire(
+        provider: string,
+        limit: number,
+        priority: RequestPriority,
+        maxWaitMs: number,
+        signal?: AbortSignal
+    ): Promise<ConcurrencySlot> {
+        const queue = this.getQueue(provider);
+        queue.limit = limit;
+        this.drain(queue);
+
+        if (limit <= 0 || (queue.active < limit && queue.waiting.length === 0)) {
+            queue.active++;
+            return Promise.resolve(this.createSlot(queue, Date.now(), 0));
+        }
+
+        if (signal?.aborted) {
+            return Promise.reject(new BridgeError('Request was cancelled before it was sent', 'REQUEST_CANCELLED'));
+        }
+
+        return new Promise((resolve, reject) => {
+            const enqueuedAt = Date.now();
+            const leaveQueue = () => {
+                clearTimeout(entry.timer);
+                signal?.removeEventListener('abort', onAbort);
+                const index = queue.waiting.indexOf(entry);
+                if (index !== -1) {
+                    queue.waiting.splice(index, 1);
+                }
+            };
+            const onAbort = () => {
+                leaveQueue();
+                reject(new BridgeError('Request was cancelled while waiting in the queue', 'REQUEST_CANCELLED'));
+            };
+            const entry: QueuedRequest = {
+                priority,
+                grant: () => {
+                    leaveQueue();
+                    resolve(this.createSlot(queue, Date.now(), Date.now() - enqueuedAt));
+                },
+                timer: setTimeout(() => {
+                    leaveQueue();
+                    reject(new QueueTimeoutError(provider, this.estimateRetryAfter(queue)));
+                }, maxWaitMs)
+            };
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            const insertAt = queue.waiting.findIndex(waiting => PRIORITY_RANK[waiting.priority] > PRIORITY_RANK[priority]);
+            queue.waiting.splice(insertAt === -1 ? queue.waiting.length : insertAt, 0, entry);
+        });
+    }
+
+    getSnapshot(): ReadonlyArray<ProviderQueueSnapshot> {
+        return [...this.queues.entries()].map(([provider, queue]) => ({
+            provider,
+            active: queue.active,
+            queued: queue.waiting.length
+        }));
+    }
+
+    private getQueue(provider: string): ProviderQueue {
+        let queue = this.queues.get(provider);
+        if (!queue) {
+            queue = { limit: 0, active: 0, averageHoldMs: ConcurrencyLimiter.INITIAL_HOLD_MS, waiting: [] };
+            this.queues.set(provider, queue);
+        }
+        return queue;
+    }
+
+    private createSlot(queue: ProviderQueue, acquiredAt: number, waitMs: number): ConcurrencySlot {
+        let released = false;
+        return {
+            waitMs,
+            release: () => {
+                if (released) {
+                    return;
+                }
+                released = true;
+                queue.active--;
+                queue.averageHoldMs += (Date.now() - acquiredAt - queue.averageHoldMs) * ConcurrencyLimiter.HOLD_TIME_SMOOTHING;
+                this.drain(queue);
+            }
+        };
+    }
+
+    private drain(queue: ProviderQueue): void {
+        while (queue.waiting.length > 0 && (queue.limit <= 0 || queue.active < queue.limit)) {
+            queue.active++;
+            queue.waiting[0].grant();
+        }
+    }
+
+    private estimateRetryAfter(queue: ProviderQueue): number {
+        const slots = Math.max(queue.limit, 1);
+        return Math.max(1, Math.ceil((queue.averageHoldMs * (queue.waiting.length + 1)) / slots / 1000));
+    }
+}
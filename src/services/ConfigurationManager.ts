@@ -1,20 +1,41 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 import {
     BridgeConfiguration,
     ConfigurationKey,
+    ConfigurationChangedEvent,
     IConfigurationManager,
     DEFAULT_CONFIGURATION,
+    DEFAULT_PROVIDER_NAME,
+    ModelAliasMap,
+    ContextLengthMap,
+    UpstreamProvider,
+    ModelRoutingRule,
+    FailoverTarget,
+    SamplingProfile,
+    SAMPLING_PROFILE_MODES,
+    UPSTREAM_FLAVORS,
+    REASONING_MODES,
+    CONTEXT_STRATEGIES,
+    OllamaOptions,
     NGROK_REGIONS,
+    NGROK_OAUTH_PROVIDERS,
+    TUNNEL_PROVIDERS,
     ConfigurationError
 } from '../types';
 import { getLogger } from '../utils/logger';
+import { isValidCidr } from '../utils/network';
 
 export class ConfigurationManager implements IConfigurationManager {
     private static readonly EXTENSION_ID = 'cursor-provider-bridge';
     private static readonly SECRET_KEY = 'ngrokAuthToken';
+    private static readonly API_KEYS_SECRET_KEY = 'bridgeApiKeys';
+    private static readonly API_KEY_PREFIX = 'cpb-';
+    private static readonly EDGE_SECRET_KEYS: ReadonlyArray<ConfigurationKey> = ['ngrokBasicAuthPassword', 'ngrokOidcClientSecret'];
     private readonly logger = getLogger();
     private configuration: BridgeConfiguration;
     private readonly changeListeners = new Set<(config: BridgeConfiguration) => void>();
+    private readonly keyChangeListeners = new Set<(event: ConfigurationChangedEvent) => void>();
     private readonly secretStorage: vscode.SecretStorage | undefined;
     private isInitialized = false;
     private initializationPromise: Promise<void> | null = null;
@@ -74,6 +95,10 @@ export class ConfigurationManager implements IConfigurationManager {
         try {
             if (key === 'ngrokAuthToken') {
                 await this.setSecureToken(value as string);
+            } else if (key === 'bridgeApiKeys') {
+                await this.setBridgeApiKeys(value as ReadonlyArray<string>);
+            } else if (ConfigurationManager.EDGE_SECRET_KEYS.includes(key)) {
+                await this.setStoredSecret(key, value as string);
             } else {
                 const config = vscode.workspace.getConfiguration(ConfigurationManager.EXTENSION_ID);
                 await config.update(key, value, vscode.ConfigurationTarget.Global);
@@ -88,16 +113,41 @@ export class ConfigurationManager implements IConfigurationManager {
         }
 
         await this.reload();
-        this.logger.info(`Configuration updated: ${key} = ${key === 'ngrokAuthToken' ? '[REDACTED]' : String(value)}`);
+        this.logger.info(`Configuration updated: ${key} = ${this.isSecretKey(key) ? '[REDACTED]' : String(value)}`);
+    }
+
+    async ensureBridgeApiKey(): Promise<string> {
+        const keys = await this.getBridgeApiKeys();
+        if (keys.length > 0) {
+            return keys[0];
+        }
+
+        const key = this.generateBridgeApiKey();
+        await this.updateConfiguration('bridgeApiKeys', [key]);
+        this.logger.info('Generated new bridge API key');
+        return key;
+    }
+
+    async rotateBridgeApiKey(): Promise<string> {
+        const key = this.generateBridgeApiKey();
+        await this.updateConfiguration('bridgeApiKeys', [key]);
+        this.logger.info('Bridge API key rotated');
+        return key;
     }
 
     async reload(): Promise<void> {
         const oldConfig = this.configuration;
         this.configuration = await this.loadConfiguration();
 
-        if (this.hasConfigChanged(oldConfig, this.configuration)) {
-            this.notifyChangeListeners();
-            this.logger.debug('Configuration reloaded', this.configuration);
+        const changes = this.getChangedKeys(oldConfig, this.configuration).map(key => ({
+            key,
+            oldValue: oldConfig[key],
+            newValue: this.configuration[key]
+        }));
+
+        if (changes.length > 0) {
+            this.logger.debug(`Configuration reloaded, changed: ${changes.map(change => change.key).join(', ')}`);
+            this.notifyChangeListeners(changes);
         }
     }
 
@@ -122,6 +172,13 @@ export class ConfigurationManager implements IConfigurationManager {
         });
     }
 
+    onDidChangeConfigurationKey(listener: (event: ConfigurationChangedEvent) => void): vscode.Disposable {
+        this.keyChangeListeners.add(listener);
+        return new vscode.Disposable(() => {
+            this.keyChangeListeners.delete(listener);
+        });
+    }
+
     async validateConfiguration(): Promise<ReadonlyArray<string>> {
         const errors: string[] = [];
         const config = this.getConfiguration();
@@ -134,11 +191,161 @@ export class ConfigurationManager implements IConfigurationManager {
             errors.push('Invalid ngrok region');
         }
 
+        errors.push(...this.validateNgrokEdgeSecurity(config));
+
+        if (!TUNNEL_PROVIDERS.includes(config.tunnelProvider)) {
+            errors.push('Invalid tunnel provider');
+        }
+
+        if (config.tunnelProvider === 'ssh' && !config.sshTunnelHost.trim()) {
+            errors.push('SSH tunnel host is required when using the ssh tunnel provider');
+        }
+
+        if (config.tunnelProvider === 'ssh' && !this.isValidPort(config.sshTunnelRemotePort)) {
+            errors.push('Invalid SSH tunnel remote port');
+        }
+
+        if (config.sshTunnelPublicUrl && !this.isValidUrl(config.sshTunnelPublicUrl)) {
+            errors.push('Invalid SSH tunnel public URL format');
+        }
+
+        if (config.tunnelProvider === 'command' && !config.tunnelCommand.trim()) {
+            errors.push('Tunnel command is required when using the command tunnel provider');
+        }
+
+        if (!this.isValidPattern(config.tunnelCommandUrlPattern)) {
+            errors.push('Tunnel command URL pattern is not a valid regular expression');
+        }
+
+        if (!(config.tunnelWatchdogIntervalSeconds >= 0)) {
+            errors.push('Tunnel health check interval must be zero (disabled) or a positive number of seconds');
+        }
+
+        if (!this.isValidPort(config.proxyPort)) {
+            errors.push('Invalid proxy port');
+        }
+
+        if (!config.listenHost.trim() || /\s/.test(config.listenHost.trim())) {
+            errors.push('Invalid listen host');
+        }
+
+        if (!UPSTREAM_FLAVORS.includes(config.providerFlavor)) {
+            errors.push('Invalid provider flavor');
+        }
+
+        if (!REASONING_MODES.includes(config.reasoningMode)) {
+            errors.push('Invalid reasoning mode');
+        }
+
+        if (!(config.historyMaxSizeMB > 0)) {
+            errors.push('History size limit must be greater than zero');
+        }
+
+        if (!Number.isInteger(config.maxConcurrentRequests) || config.maxConcurrentRequests < 0) {
+            errors.push('Maximum concurrent requests must be zero (unlimited) or a positive whole number');
+        }
+
+        if (!(config.maxQueueWaitSeconds > 0)) {
+            errors.push('Maximum queue wait must be greater than zero');
+        }
+
+        if (!(config.keepAliveIntervalSeconds >= 0)) {
+            errors.push('Keep-alive interval must be zero (disabled) or a positive number of seconds');
+        }
+
+        if (!Number.isInteger(config.responseCacheMaxEntries) || config.responseCacheMaxEntries < 1) {
+            errors.push('Response cache size must be a positive whole number');
+        }
+
+        if (!(config.responseCacheTtlMinutes > 0)) {
+            errors.push('Response cache lifetime must be greater than zero');
+        }
+
+        if (!CONTEXT_STRATEGIES.includes(config.contextStrategy)) {
+            errors.push('Invalid context strategy');
+        }
+
+        if (!Number.isInteger(config.contextReserveTokens) || config.contextReserveTokens < 0) {
+            errors.push('Context reserve must be zero or a positive whole number of tokens');
+        }
+
+        const providerNames = new Set(config.providers.map(provider => provider.name));
+        for (const rule of config.routingRules) {
+            if (rule.provider !== DEFAULT_PROVIDER_NAME && !providerNames.has(rule.provider)) {
+                errors.push(`Routing rule "${rule.model}" references unknown provider "${rule.provider}"`);
+            }
+        }
+
+        for (const target of config.failoverChain) {
+            if (target.provider !== DEFAULT_PROVIDER_NAME && !providerNames.has(target.provider)) {
+                errors.push(`Failover chain references unknown provider "${target.provider}"`);
+            }
+        }
+
+        return errors;
+    }
+
+    private validateNgrokEdgeSecurity(config: BridgeConfiguration): string[] {
+        const errors: string[] = [];
+        const username = config.ngrokBasicAuthUsername.trim();
+        const password = config.ngrokBasicAuthPassword;
+
+        if (Boolean(username) !== Boolean(password)) {
+            errors.push('Ngrok basic auth requires both a username and a password');
+        }
+
+        if (username.includes(':')) {
+            errors.push('Ngrok basic auth username cannot contain ":"');
+        }
+
+        if (password && (password.length < 8 || password.length > 128)) {
+            errors.push('Ngrok basic auth password must be between 8 and 128 characters');
+        }
+
+        if (!NGROK_OAUTH_PROVIDERS.includes(config.ngrokOAuthProvider)) {
+            errors.push('Invalid ngrok OAuth provider');
+        }
+
+        const oidcFields = [config.ngrokOidcIssuerUrl.trim(), config.ngrokOidcClientId.trim(), config.ngrokOidcClientSecret];
+        const hasOidc = oidcFields.some(Boolean);
+        if (hasOidc && !oidcFields.every(Boolean)) {
+            errors.push('Ngrok OIDC requires an issuer URL, client ID and client secret');
+        }
+
+        if (config.ngrokOidcIssuerUrl.trim() && !this.isValidUrl(config.ngrokOidcIssuerUrl.trim())) {
+            errors.push('Invalid ngrok OIDC issuer URL format');
+        }
+
+        const hasOAuth = config.ngrokOAuthProvider !== 'none';
+        if (hasOAuth && hasOidc) {
+            errors.push('Ngrok OAuth and OIDC cannot be enabled at the same time');
+        }
+
+        if ((config.ngrokAllowedEmails.length > 0 || config.ngrokAllowedDomains.length > 0) && !hasOAuth && !hasOidc) {
+            errors.push('Ngrok allowed emails and domains require an OAuth provider or OIDC');
+        }
+
+        for (const cidr of [...config.ngrokIpAllowCidrs, ...config.ngrokIpDenyCidrs]) {
+            if (!isValidCidr(cidr)) {
+                errors.push(`Invalid ngrok IP restriction CIDR "${cidr}"`);
+            }
+        }
+
+        const policy = config.ngrokTrafficPolicy.trim();
+        if (policy.startsWith('{')) {
+            try {
+                JSON.parse(policy);
+            } catch {
+                errors.push('Ngrok traffic policy is not valid JSON');
+            }
+        }
+
         return errors;
     }
 
     dispose(): void {
         this.changeListeners.clear();
+        this.keyChangeListeners.clear();
         this.logger.debug('Configuration manager disposed');
     }
 
@@ -151,10 +358,66 @@ export class ConfigurationManager implements IConfigurationManager {
             showStatusBar: config.get('showStatusBar', DEFAULT_CONFIGURATION.showStatusBar),
             ngrokAuthToken: await this.getSecureToken(),
             ngrokDomain: config.get('ngrokDomain', DEFAULT_CONFIGURATION.ngrokDomain),
-            ngrokRegion: config.get('ngrokRegion', DEFAULT_CONFIGURATION.ngrokRegion)
+            ngrokRegion: config.get('ngrokRegion', DEFAULT_CONFIGURATION.ngrokRegion),
+            ngrokBasicAuthUsername: config.get('ngrokBasicAuthUsername', DEFAULT_CONFIGURATION.ngrokBasicAuthUsername),
+            ngrokBasicAuthPassword: await this.getStoredSecret('ngrokBasicAuthPassword'),
+            ngrokOAuthProvider: config.get('ngrokOAuthProvider', DEFAULT_CONFIGURATION.ngrokOAuthProvider),
+            ngrokOidcIssuerUrl: config.get('ngrokOidcIssuerUrl', DEFAULT_CONFIGURATION.ngrokOidcIssuerUrl),
+            ngrokOidcClientId: config.get('ngrokOidcClientId', DEFAULT_CONFIGURATION.ngrokOidcClientId),
+            ngrokOidcClientSecret: await this.getStoredSecret('ngrokOidcClientSecret'),
+            ngrokAllowedEmails: this.sanitizeStringList(config.get('ngrokAllowedEmails', DEFAULT_CONFIGURATION.ngrokAllowedEmails)),
+            ngrokAllowedDomains: this.sanitizeStringList(config.get('ngrokAllowedDomains', DEFAULT_CONFIGURATION.ngrokAllowedDomains)),
+            ngrokIpAllowCidrs: this.sanitizeStringList(config.get('ngrokIpAllowCidrs', DEFAULT_CONFIGURATION.ngrokIpAllowCidrs)),
+            ngrokIpDenyCidrs: this.sanitizeStringList(config.get('ngrokIpDenyCidrs', DEFAULT_CONFIGURATION.ngrokIpDenyCidrs)),
+            ngrokTrafficPolicy: config.get('ngrokTrafficPolicy', DEFAULT_CONFIGURATION.ngrokTrafficPolicy),
+            tunnelProvider: config.get('tunnelProvider', DEFAULT_CONFIGURATION.tunnelProvider),
+            cloudflaredPath: this.getMachineSetting(config, 'cloudflaredPath', DEFAULT_CONFIGURATION.cloudflaredPath),
+            sshTunnelHost: this.getMachineSetting(config, 'sshTunnelHost', DEFAULT_CONFIGURATION.sshTunnelHost),
+            sshTunnelRemotePort: config.get('sshTunnelRemotePort', DEFAULT_CONFIGURATION.sshTunnelRemotePort),
+            sshTunnelPublicUrl: config.get('sshTunnelPublicUrl', DEFAULT_CONFIGURATION.sshTunnelPublicUrl),
+            sshTunnelArgs: this.sanitizeStringList(this.getMachineSetting(config, 'sshTunnelArgs', DEFAULT_CONFIGURATION.sshTunnelArgs)),
+            tunnelCommand: this.getMachineSetting(config, 'tunnelCommand', DEFAULT_CONFIGURATION.tunnelCommand),
+            tunnelCommandUrlPattern: this.getMachineSetting(config, 'tunnelCommandUrlPattern', DEFAULT_CONFIGURATION.tunnelCommandUrlPattern),
+            tunnelWatchdogIntervalSeconds: config.get('tunnelWatchdogIntervalSeconds', DEFAULT_CONFIGURATION.tunnelWatchdogIntervalSeconds),
+            requireApiKey: config.get('requireApiKey', DEFAULT_CONFIGURATION.requireApiKey),
+            proxyPort: config.get('proxyPort', DEFAULT_CONFIGURATION.proxyPort),
+            autoSelectProxyPort: config.get('autoSelectProxyPort', DEFAULT_CONFIGURATION.autoSelectProxyPort),
+            listenHost: config.get('listenHost', DEFAULT_CONFIGURATION.listenHost),
+            modelAliases: this.sanitizeModelAliases(config.get('modelAliases', DEFAULT_CONFIGURATION.modelAliases)),
+            providers: this.sanitizeProviders(config.get('providers', DEFAULT_CONFIGURATION.providers)),
+            routingRules: this.sanitizeRoutingRules(config.get('routingRules', DEFAULT_CONFIGURATION.routingRules)),
+            failoverChain: this.sanitizeFailoverChain(config.get('failoverChain', DEFAULT_CONFIGURATION.failoverChain)),
+            toolEmulationModels: this.sanitizeStringList(config.get('toolEmulationModels', DEFAULT_CONFIGURATION.toolEmulationModels)),
+            reasoningMode: config.get('reasoningMode', DEFAULT_CONFIGURATION.reasoningMode),
+            historyEnabled: config.get('historyEnabled', DEFAULT_CONFIGURATION.historyEnabled),
+            historyMaxSizeMB: config.get('historyMaxSizeMB', DEFAULT_CONFIGURATION.historyMaxSizeMB),
+            historyRedactPatterns: this.sanitizeRedactPatterns(
+                config.get('historyRedactPatterns', DEFAULT_CONFIGURATION.historyRedactPatterns)
+            ),
+            allowRemoteMonitoring: config.get('allowRemoteMonitoring', DEFAULT_CONFIGURATION.allowRemoteMonitoring),
+            maxConcurrentRequests: config.get('maxConcurrentRequests', DEFAULT_CONFIGURATION.maxConcurrentRequests),
+            maxQueueWaitSeconds: config.get('maxQueueWaitSeconds', DEFAULT_CONFIGURATION.maxQueueWaitSeconds),
+            prioritizeStreamingRequests: config.get('prioritizeStreamingRequests', DEFAULT_CONFIGURATION.prioritizeStreamingRequests),
+            keepAliveIntervalSeconds: config.get('keepAliveIntervalSeconds', DEFAULT_CONFIGURATION.keepAliveIntervalSeconds),
+            streamNonStreamingRequests: config.get('streamNonStreamingRequests', DEFAULT_CONFIGURATION.streamNonStreamingRequests),
+            responseCacheEnabled: config.get('responseCacheEnabled', DEFAULT_CONFIGURATION.responseCacheEnabled),
+            responseCacheMaxEntries: config.get('responseCacheMaxEntries', DEFAULT_CONFIGURATION.responseCacheMaxEntries),
+            responseCacheTtlMinutes: config.get('responseCacheTtlMinutes', DEFAULT_CONFIGURATION.responseCacheTtlMinutes),
+            responseCacheDiskEnabled: config.get('responseCacheDiskEnabled', DEFAULT_CONFIGURATION.responseCacheDiskEnabled),
+            contextLengths: this.sanitizeContextLengths(config.get('contextLengths', DEFAULT_CONFIGURATION.contextLengths)),
+            contextStrategy: config.get('contextStrategy', DEFAULT_CONFIGURATION.contextStrategy),
+            contextReserveTokens: config.get('contextReserveTokens', DEFAULT_CONFIGURATION.contextReserveTokens),
+            samplingProfiles: this.sanitizeSamplingProfiles(config.get('samplingProfiles', DEFAULT_CONFIGURATION.samplingProfiles)),
+            providerFlavor: config.get('providerFlavor', DEFAULT_CONFIGURATION.providerFlavor),
+            ollamaOptions: this.sanitizeOllamaOptions(config.get('ollamaOptions', DEFAULT_CONFIGURATION.ollamaOptions)),
+            bridgeApiKeys: await this.getBridgeApiKeys()
         };
     }
 
+    private getMachineSetting<T>(config: vscode.WorkspaceConfiguration, key: string, defaultValue: T): T {
+        return config.inspect<T>(key)?.globalValue ?? defaultValue;
+    }
+
     private setupConfigurationWatcher(): void {
         vscode.workspace.onDidChangeConfiguration(event => {
             if (event.affectsConfiguration(ConfigurationManager.EXTENSION_ID)) {
@@ -165,11 +428,36 @@ export class ConfigurationManager implements IConfigurationManager {
         });
     }
 
-    private hasConfigChanged(oldConfig: BridgeConfiguration, newConfig: BridgeConfiguration): boolean {
-        return JSON.stringify(oldConfig) !== JSON.stringify(newConfig);
+    private getChangedKeys(oldConfig: BridgeConfiguration, newConfig: BridgeConfiguration): ConfigurationKey[] {
+        return (Object.keys(newConfig) as ConfigurationKey[]).filter(key => !this.isSameValue(oldConfig[key], newConfig[key]));
+    }
+
+    private isSameValue(a: unknown, b: unknown): boolean {
+        if (a === b) {
+            return true;
+        }
+        if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+            return false;
+        }
+
+        const aRecord = a as Record<string, unknown>;
+        const bRecord = b as Record<string, unknown>;
+        const keys = Object.keys(aRecord);
+        return keys.length === Object.keys(bRecord).length &&
+            keys.every(key => Object.prototype.hasOwnProperty.call(bRecord, key) && this.isSameValue(aRecord[key], bRecord[key]));
     }
 
-    private notifyChangeListeners(): void {
+    private notifyChangeListeners(changes: ReadonlyArray<ConfigurationChangedEvent>): void {
+        for (const change of changes) {
+            for (const listener of this.keyChangeListeners) {
+                try {
+                    listener(change);
+                } catch (error) {
+                    this.logger.error(`Error in configuration change listener for ${change.key}`, error);
+                }
+            }
+        }
+
         for (const listener of this.changeListeners) {
             try {
                 listener(this.configuration);
@@ -196,6 +484,11 @@ export class ConfigurationManager implements IConfigurationManager {
                 description: config.showStatusBar ? 'Enabled' : 'Disabled',
                 key: 'showStatusBar' as ConfigurationKey
             },
+            {
+                label: '$(cloud) Tunnel Provider',
+                description: config.tunnelProvider,
+                key: 'tunnelProvider' as ConfigurationKey
+            },
             {
                 label: '$(key) Ngrok Auth Token',
                 description: config.ngrokAuthToken ? 'Set' : 'Not set',
@@ -210,6 +503,66 @@ export class ConfigurationManager implements IConfigurationManager {
                 label: '$(globe) Ngrok Region',
                 description: config.ngrokRegion,
                 key: 'ngrokRegion' as ConfigurationKey
+            },
+            {
+                label: '$(person) Ngrok Basic Auth Username',
+                description: config.ngrokBasicAuthUsername || 'Not set',
+                key: 'ngrokBasicAuthUsername' as ConfigurationKey
+            },
+            {
+                label: '$(lock) Ngrok Basic Auth Password',
+                description: config.ngrokBasicAuthPassword ? 'Set' : 'Not set',
+                key: 'ngrokBasicAuthPassword' as ConfigurationKey
+            },
+            {
+                label: '$(account) Ngrok OAuth Provider',
+                description: config.ngrokOAuthProvider,
+                key: 'ngrokOAuthProvider' as ConfigurationKey
+            },
+            {
+                label: '$(lock) Ngrok OIDC Client Secret',
+                description: config.ngrokOidcClientSecret ? 'Set' : 'Not set',
+                key: 'ngrokOidcClientSecret' as ConfigurationKey
+            },
+            {
+                label: '$(symbol-interface) Provider API Flavor',
+                description: config.providerFlavor,
+                key: 'providerFlavor' as ConfigurationKey
+            },
+            {
+                label: '$(lightbulb) Reasoning Mode',
+                description: config.reasoningMode,
+                key: 'reasoningMode' as ConfigurationKey
+            },
+            {
+                label: '$(fold) Context Strategy',
+                description: config.contextStrategy,
+                key: 'contextStrategy' as ConfigurationKey
+            },
+            {
+                label: '$(plug) Proxy Port',
+                description: config.autoSelectProxyPort ? `${config.proxyPort} (auto)` : String(config.proxyPort),
+                key: 'proxyPort' as ConfigurationKey
+            },
+            {
+                label: '$(search) Auto Select Proxy Port',
+                description: config.autoSelectProxyPort ? 'Enabled' : 'Disabled',
+                key: 'autoSelectProxyPort' as ConfigurationKey
+            },
+            {
+                label: '$(shield) Require API Key',
+                description: config.requireApiKey ? 'Enabled' : 'Disabled',
+                key: 'requireApiKey' as ConfigurationKey
+            },
+            {
+                label: '$(history) Request History',
+                description: config.historyEnabled ? 'Enabled' : 'Disabled',
+                key: 'historyEnabled' as ConfigurationKey
+            },
+            {
+                label: '$(database) Response Cache',
+                description: config.responseCacheEnabled ? 'Enabled' : 'Disabled',
+                key: 'responseCacheEnabled' as ConfigurationKey
             }
         ];
     }
@@ -232,8 +585,37 @@ export class ConfigurationManager implements IConfigurationManager {
             case 'ngrokRegion':
                 newValue = await this.promptForRegion(currentValue as string);
                 break;
+            case 'ngrokBasicAuthUsername':
+                newValue = await this.promptForBasicAuthUsername(currentValue as string);
+                break;
+            case 'ngrokBasicAuthPassword':
+            case 'ngrokOidcClientSecret':
+                newValue = await this.promptForEdgeSecret(key, currentValue as string);
+                break;
+            case 'ngrokOAuthProvider':
+                newValue = await this.promptForOAuthProvider(currentValue as string);
+                break;
+            case 'proxyPort':
+                newValue = await this.promptForPort(currentValue as number);
+                break;
+            case 'providerFlavor':
+                newValue = await this.promptForFlavor(currentValue as string);
+                break;
+            case 'reasoningMode':
+                newValue = await this.promptForReasoningMode(currentValue as string);
+                break;
+            case 'tunnelProvider':
+                newValue = await this.promptForTunnelProvider(currentValue as string);
+                break;
+            case 'contextStrategy':
+                newValue = await this.promptForContextStrategy(currentValue as string);
+                break;
             case 'autoStart':
             case 'showStatusBar':
+            case 'requireApiKey':
+            case 'autoSelectProxyPort':
+            case 'historyEnabled':
+            case 'responseCacheEnabled':
                 newValue = await this.promptForBoolean(key, currentValue as boolean);
                 break;
             default:
@@ -282,6 +664,68 @@ export class ConfigurationManager implements IConfigurationManager {
         });
     }
 
+    private async promptForBasicAuthUsername(currentValue: string): Promise<string | undefined> {
+        return vscode.window.showInputBox({
+            prompt: 'Enter the username visitors must use to pass ngrok basic auth',
+            value: currentValue,
+            placeHolder: 'Leave empty to disable basic auth',
+            validateInput: (value) => value.includes(':') ? 'The username cannot contain ":"' : null
+        });
+    }
+
+    private async promptForEdgeSecret(key: ConfigurationKey, currentValue: string): Promise<string | undefined> {
+        const isPassword = key === 'ngrokBasicAuthPassword';
+        return vscode.window.showInputBox({
+            prompt: isPassword ? 'Enter the ngrok basic auth password' : 'Enter the OpenID Connect client secret',
+            value: currentValue,
+            password: true,
+            placeHolder: 'Stored in secure storage; leave empty to remove',
+            validateInput: (value) => isPassword && value && (value.length < 8 || value.length > 128)
+                ? 'The password must be between 8 and 128 characters'
+                : null
+        });
+    }
+
+    private async promptForOAuthProvider(currentValue: string): Promise<string | undefined> {
+        return vscode.window.showQuickPick([...NGROK_OAUTH_PROVIDERS], {
+            placeHolder: `Select the sign-in provider required at the ngrok edge - Currently: ${currentValue}`
+        });
+    }
+
+    private async promptForFlavor(currentValue: string): Promise<string | undefined> {
+        return vscode.window.showQuickPick([...UPSTREAM_FLAVORS], {
+            placeHolder: `Select the API spoken by the provider - Currently: ${currentValue}`
+        });
+    }
+
+    private async promptForReasoningMode(currentValue: string): Promise<string | undefined> {
+        return vscode.window.showQuickPick([...REASONING_MODES], {
+            placeHolder: `Select how model reasoning is returned - Currently: ${currentValue}`
+        });
+    }
+
+    private async promptForTunnelProvider(currentValue: string): Promise<string | undefined> {
+        return vscode.window.showQuickPick([...TUNNEL_PROVIDERS], {
+            placeHolder: `Select how the bridge is exposed publicly - Currently: ${currentValue}`
+        });
+    }
+
+    private async promptForContextStrategy(currentValue: string): Promise<string | undefined> {
+        return vscode.window.showQuickPick([...CONTEXT_STRATEGIES], {
+            placeHolder: `Select how oversized requests are handled - Currently: ${currentValue}`
+        });
+    }
+
+    private async promptForPort(currentValue: number): Promise<number | undefined> {
+        const value = await vscode.window.showInputBox({
+            prompt: 'Enter the local port for the proxy server',
+            value: String(currentValue),
+            validateInput: (input) => this.isValidPort(Number(input)) ? null : 'Please enter a port between 1024 and 65535'
+        });
+
+        return value === undefined ? undefined : Number(value);
+    }
+
     private async promptForBoolean(key: string, currentValue: boolean): Promise<boolean | undefined> {
         const options = ['Enable', 'Disable'];
         let keyDisplayName: string;
@@ -293,6 +737,18 @@ export class ConfigurationManager implements IConfigurationManager {
             case 'showStatusBar':
                 keyDisplayName = 'Show Status Bar';
                 break;
+            case 'requireApiKey':
+                keyDisplayName = 'Require API Key';
+                break;
+            case 'autoSelectProxyPort':
+                keyDisplayName = 'Auto Select Proxy Port';
+                break;
+            case 'historyEnabled':
+                keyDisplayName = 'Request History';
+                break;
+            case 'responseCacheEnabled':
+                keyDisplayName = 'Response Cache';
+                break;
             default:
                 keyDisplayName = key;
         }
@@ -313,6 +769,165 @@ export class ConfigurationManager implements IConfigurationManager {
         }
     }
 
+    private isValidPattern(pattern: string): boolean {
+        try {
+            new RegExp(pattern);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private sanitizeModelAliases(aliases: unknown): ModelAliasMap {
+        if (!aliases || typeof aliases !== 'object' || Array.isArray(aliases)) {
+            return {};
+        }
+
+        const sanitized: Record<string, string> = {};
+        for (const [alias, target] of Object.entries(aliases)) {
+            if (alias.trim() && typeof target === 'string' && target.trim()) {
+                sanitized[alias.trim()] = target.trim();
+            } else {
+                this.logger.warn(`Ignoring invalid model alias "${alias}"`);
+            }
+        }
+        return sanitized;
+    }
+
+    private sanitizeContextLengths(lengths: unknown): ContextLengthMap {
+        if (!lengths || typeof lengths !== 'object' || Array.isArray(lengths)) {
+            return {};
+        }
+
+        const sanitized: Record<string, number> = {};
+        for (const [pattern, length] of Object.entries(lengths)) {
+            if (pattern.trim() && Number.isInteger(length) && (length as number) > 0) {
+                sanitized[pattern.trim()] = length as number;
+            } else {
+                this.logger.warn(`Ignoring invalid context length for "${pattern}"`);
+            }
+        }
+        return sanitized;
+    }
+
+    private sanitizeProviders(providers: unknown): ReadonlyArray<UpstreamProvider> {
+        if (!Array.isArray(providers)) {
+            return [];
+        }
+
+        const sanitized: UpstreamProvider[] = [];
+        for (const provider of providers) {
+            const name = typeof provider?.name === 'string' ? provider.name.trim() : '';
+            const url = typeof provider?.url === 'string' ? provider.url.trim() : '';
+            const flavor = UPSTREAM_FLAVORS.includes(provider?.flavor) ? provider.flavor : 'openai';
+            const maxConcurrentRequests = Number.isInteger(provider?.maxConcurrentRequests) && provider.maxConcurrentRequests >= 0
+                ? provider.maxConcurrentRequests as number
+                : undefined;
+
+            if (!name || name === DEFAULT_PROVIDER_NAME || !this.isValidUrl(url)) {
+                this.logger.warn(`Ignoring invalid provider "${name || 'unnamed'}"`);
+                continue;
+            }
+            if (sanitized.some(existing => existing.name === name)) {
+                this.logger.warn(`Ignoring duplicate provider "${name}"`);
+                continue;
+            }
+            sanitized.push(maxConcurrentRequests === undefined ? { name, url, flavor } : { name, url, flavor, maxConcurrentRequests });
+        }
+        return sanitized;
+    }
+
+    private sanitizeRoutingRules(rules: unknown): ReadonlyArray<ModelRoutingRule> {
+        if (!Array.isArray(rules)) {
+            return [];
+        }
+
+        return rules
+            .filter(rule => typeof rule?.model === 'string' && rule.model.trim() &&
+                typeof rule?.provider === 'string' && rule.provider.trim())
+            .map(rule => ({ model: rule.model.trim(), provider: rule.provider.trim() }));
+    }
+
+    private sanitizeFailoverChain(chain: unknown): ReadonlyArray<FailoverTarget> {
+        if (!Array.isArray(chain)) {
+            return [];
+        }
+
+        return chain
+            .filter(target => typeof target?.provider === 'string' && target.provider.trim())
+            .map(target => ({
+                provider: target.provider.trim(),
+                model: typeof target.model === 'string' && target.model.trim() ? target.model.trim() : undefined
+            }));
+    }
+
+    private sanitizeSamplingProfiles(profiles: unknown): ReadonlyArray<SamplingProfile> {
+        if (!Array.isArray(profiles)) {
+            return [];
+        }
+
+        const sanitized: SamplingProfile[] = [];
+        for (const profile of profiles) {
+            const model = typeof profile?.model === 'string' ? profile.model.trim() : '';
+            if (!model) {
+                this.logger.warn('Ignoring sampling profile without a model pattern');
+                continue;
+            }
+
+            const numberOrUndefined = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+            const stop = typeof profile.stop === 'string'
+                ? [profile.stop]
+                : Array.isArray(profile.stop) ? profile.stop.filter((sequence: unknown) => typeof sequence === 'string') : undefined;
+            const maxTokens = Number.isInteger(profile.max_tokens) && profile.max_tokens > 0 ? profile.max_tokens as number : undefined;
+
+            sanitized.push({
+                model,
+                mode: SAMPLING_PROFILE_MODES.includes(profile.mode) ? profile.mode : 'fill',
+                temperature: numberOrUndefined(profile.temperature),
+                top_p: numberOrUndefined(profile.top_p),
+                top_k: numberOrUndefined(profile.top_k),
+                min_p: numberOrUndefined(profile.min_p),
+                repeat_penalty: numberOrUndefined(profile.repeat_penalty),
+                stop,
+                max_tokens: maxTokens
+            });
+        }
+        return sanitized;
+    }
+
+    private sanitizeStringList(values: unknown): ReadonlyArray<string> {
+        if (!Array.isArray(values)) {
+            return [];
+        }
+
+        return values
+            .filter(value => typeof value === 'string' && value.trim())
+            .map(value => value.trim());
+    }
+
+    private sanitizeRedactPatterns(patterns: unknown): ReadonlyArray<string> {
+        return this.sanitizeStringList(patterns).filter(pattern => {
+            try {
+                new RegExp(pattern, 'g');
+                return true;
+            } catch {
+                this.logger.warn(`Ignoring invalid history redaction pattern "${pattern}"`);
+                return false;
+            }
+        });
+    }
+
+    private sanitizeOllamaOptions(options: unknown): OllamaOptions {
+        if (!options || typeof options !== 'object' || Array.isArray(options)) {
+            return {};
+        }
+        return { ...options };
+    }
+
+    private isValidPort(port: number): boolean {
+        return Number.isInteger(port) && port >= 1024 && port <= 65535;
+    }
+
     private async getSecureToken(): Promise<string> {
         if (!this.secretStorage) {
             this.logger.error('SecretStorage unavailable - secure token storage is required for authentication tokens');
@@ -376,6 +991,85 @@ export class ConfigurationManager implements IConfigurationManager {
         }
     }
 
+    private async getStoredSecret(key: ConfigurationKey): Promise<string> {
+        if (!this.secretStorage) {
+            throw new ConfigurationError(`SecretStorage is required for secure storage of ${key} but is unavailable`);
+        }
+
+        try {
+            const stored = await this.secretStorage.get(key);
+            if (stored) {
+                return stored;
+            }
+
+            const config = vscode.workspace.getConfiguration(ConfigurationManager.EXTENSION_ID);
+            const configValue = config.get<string>(key, '');
+            if (configValue) {
+                this.logger.info(`Migrating ${key} from config to secure storage`);
+                await this.secretStorage.store(key, configValue);
+                await config.update(key, undefined, vscode.ConfigurationTarget.Global);
+            }
+            return configValue;
+        } catch (error) {
+            this.logger.error(`Failed to retrieve ${key} from secure storage`, error);
+            throw new ConfigurationError(`Failed to retrieve ${key} from secure storage`, error);
+        }
+    }
+
+    private async setStoredSecret(key: ConfigurationKey, value: string): Promise<void> {
+        if (!this.secretStorage) {
+            throw new ConfigurationError(`SecretStorage is required for secure storage of ${key} but is unavailable`);
+        }
+
+        if (value) {
+            await this.secretStorage.store(key, value);
+        } else {
+            await this.secretStorage.delete(key);
+        }
+        this.logger.debug(`${key} stored securely`);
+    }
+
+    private async getBridgeApiKeys(): Promise<ReadonlyArray<string>> {
+        if (!this.secretStorage) {
+            throw new ConfigurationError('SecretStorage is required for secure API key storage but is unavailable');
+        }
+
+        try {
+            const stored = await this.secretStorage.get(ConfigurationManager.API_KEYS_SECRET_KEY);
+            if (!stored) {
+                return [];
+            }
+
+            const keys = JSON.parse(stored);
+            return Array.isArray(keys) ? keys.filter((key): key is string => typeof key === 'string' && key.length > 0) : [];
+        } catch (error) {
+            this.logger.error('Failed to retrieve bridge API keys from secure storage', error);
+            throw new ConfigurationError('Failed to retrieve bridge API keys from secure storage', error);
+        }
+    }
+
+    private async setBridgeApiKeys(keys: ReadonlyArray<string>): Promise<void> {
+        if (!this.secretStorage) {
+            throw new ConfigurationError('SecretStorage is required for secure API key storage but is unavailable');
+        }
+
+        if (keys.length === 0) {
+            await this.secretStorage.delete(ConfigurationManager.API_KEYS_SECRET_KEY);
+            return;
+        }
+
+        await this.secretStorage.store(ConfigurationManager.API_KEYS_SECRET_KEY, JSON.stringify(keys));
+        this.logger.debug('Bridge API keys stored securely');
+    }
+
+    private generateBridgeApiKey(): string {
+        return `${ConfigurationManager.API_KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+    }
+
+    private isSecretKey(key: ConfigurationKey): boolean {
+        return key === 'ngrokAuthToken' || key === 'bridgeApiKeys' || ConfigurationManager.EDGE_SECRET_KEYS.includes(key);
+    }
+
     private async clearTokenFromConfig(): Promise<void> {
         try {
             const config = vscode.workspace.getConfiguration(ConfigurationManager.EXTENSION_ID);
@@ -0,0 +1,183 @@
+import { ContextLengthError, IConfigurationManager, IModelProvider } from '../types';
+import { getLogger } from '../utils/logger';
+import { matchesWildcard } from '../utils/patterns';
+import { estimateMessageTokens, estimateRequestTokens, estimateTokens } from '../utils/tokens';
+
+type Message = Record<string, unknown>;
+
+interface MessageGroup {
+    readonly messages: ReadonlyArray<Message>;
+    readonly tokens: number;
+    readonly pinned: boolean;
+}
+
+export class ContextWindowManager {
+    private static readonly MIN_TOOL_RESULT_CHARS = 200;
+    private static readonly CHARS_PER_TOKEN = 4;
+    private static readonly TRUNCATION_NOTICE_CHARS = 64;
+    private static readonly MIN_PROMPT_TOKENS = 1024;
+
+    private readonly logger = getLogger();
+
+    constructor(
+        private readonly configManager: IConfigurationManager,
+        private readonly modelProvider: IModelProvider
+    ) {}
+
+    async fit(request: Record<string, unknown>): Promise<Record<string, unknown>> {
+        const { contextStrategy } = this.configManager.getConfiguration();
+        const model = String(request.model ?? '');
+        if (contextStrategy === 'off' || !Array.isArray(request.messages)) {
+            return request;
+        }
+
+        const contextLength = await this.getContextLength(model);
+        if (!contextLength) {
+            return request;
+        }
+
+        const requestedTokens = this.getRequestedTokens(request);
+        const reservedTokens = Math.min(
+            requestedTokens ?? this.configManager.getConfiguration().contextReserveTokens,
+            contextLength - Math.min(ContextWindowManager.MIN_PROMPT_TOKENS, Math.floor(contextLength / 2))
+        );
+        const clamped = requestedTokens !== undefined && requestedTokens > reservedTokens
+            ? this.clampMaxTokens(request, model, reservedTokens, contextLength)
+            : request;
+
+        const budget = contextLength - reservedTokens;
+        const promptTokens = estimateRequestTokens(clamped);
+        if (promptTokens <= budget) {
+            return clamped;
+        }
+
+        const fitted = contextStrategy === 'dropOldest'
+            ? this.dropOldestMessages(clamped, budget)
+            : contextStrategy === 'truncateToolResults'
+                ? this.truncateToolResults(clamped, budget)
+                : clamped;
+
+        const fittedTokens = estimateRequestTokens(fitted);
+        if (fittedTokens > budget) {
+            throw new ContextLengthError(model, promptTokens, reservedTokens, contextLength);
+        }
+
+        this.logger.info(
+            `Reduced request for model "${model}" from ~${promptTokens} to ~${fittedTokens} tokens ` +
+            `to fit its ${contextLength}-token context window (${contextStrategy})`
+        );
+        return fitted;
+    }
+
+    private async getContextLength(model: string): Promise<number | undefined> {
+        const { contextLengths } = this.configManager.getConfiguration();
+        const configured = contextLengths[model] ??
+            Object.entries(contextLengths).find(([pattern]) => matchesWildcard(pattern, model))?.[1];
+        if (configured) {
+            return configured;
+        }
+
+        try {
+            return await this.modelProvider.getContextLength(model);
+        } catch (error) {
+            this.logger.debug(`Could not discover context length for model "${model}"`, error);
+            return undefined;
+        }
+    }
+
+    private getRequestedTokens(request: Record<string, unknown>): number | undefined {
+        const requested = request.max_tokens ?? request.max_completion_tokens;
+        return typeof requested === 'number' && requested > 0 ? requested : undefined;
+    }
+
+    private clampMaxTokens(
+        request: Record<string, unknown>,
+        model: string,
+        maxTokens: number,
+        contextLength: number
+    ): Record<string, unknown> {
+        const key = request.max_tokens !== undefined ? 'max_tokens' : 'max_completion_tokens';
+        this.logger.info(
+            `Lowered ${key} for model "${model}" from ${String(request[key])} to ${maxTokens} ` +
+            `to leave room for the prompt in its ${contextLength}-token context window`
+        );
+        return { ...request, [key]: maxTokens };
+    }
+
+    private dropOldestMessages(request: Record<string, unknown>, budget: number): Record<string, unknown> {
+        const groups = this.groupMessages(request.messages as Message[]);
+        let excess = estimateRequestTokens(request) - budget;
+        let dropped = 0;
+
+        const kept = groups.filter(group => {
+            if (excess <= 0 || group.pinned) {
+                return true;
+            }
+            excess -= group.tokens;
+            dropped += group.messages.length;
+            return false;
+        });
+
+        if (dropped === 0) {
+            return request;
+        }
+
+        this.logger.debug(`Dropped ${dropped} oldest message(s) to fit the context window`);
+        return { ...request, messages: kept.flatMap(group => group.messages) };
+    }
+
+    private groupMessages(messages: ReadonlyArray<Message>): MessageGroup[] {
+        const grouped: Message[][] = [];
+        for (const message of messages) {
+            const current = grouped[grouped.length - 1];
+            if (message.role === 'tool' && current) {
+                current.push(message);
+            } else {
+                grouped.push([message]);
+            }
+        }
+
+        return grouped.map((group, index) => ({
+            messages: group,
+            tokens: group.reduce((total, message) => total + estimateMessageTokens(message), 0),
+            pinned: index === grouped.length - 1 || group[0].role === 'system'
+        }));
+    }
+
+    private truncateToolResults(request: Record<string, unknown>, budget: number): Record<string, unknown> {
+        const messages = [...request.messages as Message[]];
+        const toolResults = messages
+            .map((message, index) => ({ message, index }))
+            .filter(({ message }) => message.role === 'tool' && typeof message.content === 'string')
+            .sort((a, b) => (b.message.content as string).length - (a.message.content as string).length);
+
+        let excess = estimateRequestTokens(request) - budget;
+        let truncatedCount = 0;
+        for (const { message, index } of toolResults) {
+            if (excess <= 0) {
+                break;
+            }
+
+            const content = message.content as string;
+            const keepChars = Math.max(
+                ContextWindowManager.MIN_TOOL_RESULT_CHARS,
+                content.length - excess * ContextWindowManager.CHARS_PER_TOKEN - ContextWindowManager.TRUNCATION_NOTICE_CHARS
+            );
+            if (keepChars >= content.length) {
+                continue;
+            }
+
+            const truncated = `${content.slice(0, keepChars)}\n[... ${content.length - keepChars} characters truncated by the bridge]`;
+            excess -= estimateTokens(content) - estimateTokens(truncated);
+            messages[index] = { ...message, content: truncated };
+            truncatedCount++;
+        }
+
+        if (truncatedCount === 0) {
+            return request;
+        }
+
+        this.logger.debug(`Truncated ${truncatedCount} tool result(s) to fit the context window`);
+        return { ...request, messages };
+    }
+}
@@ -0,0 +1,73 @@
+import { IConfigurationManager, ModelInfo } from '../types';
+import { getLogger } from '../utils/logger';
+import { expandWildcard, isWildcardPattern, matchWildcard } from '../utils/patterns';
+
+export class ModelAliasResolver {
+    private readonly logger = getLogger();
+
+    constructor(private readonly configManager: IConfigurationManager) {}
+
+    hasAliases(): boolean {
+        return Object.keys(this.configManager.getConfiguration().modelAliases).length > 0;
+    }
+
+    hasAlias(model: string): boolean {
+        return this.findTarget(model) !== null;
+    }
+
+    resolve(model: string): string {
+        const target = this.findTarget(model);
+        if (target === null || target === model) {
+            return model;
+        }
+
+        this.logger.debug(`Resolved model alias "${model}" to "${target}"`);
+        return target;
+    }
+
+    advertiseAliases(models: ReadonlyArray<ModelInfo>): ModelInfo[] {
+        const aliases = this.configManager.getConfiguration().modelAliases;
+        const advertised = [...models];
+        const knownIds = new Set(models.map(model => model.id));
+
+        for (const [alias, target] of Object.entries(aliases)) {
+            if (isWildcardPattern(alias) || knownIds.has(alias)) {
+                continue;
+            }
+
+            const targetModel = models.find(model => model.id === target);
+            advertised.push({
+                id: alias,
+                object: 'model',
+                created: targetModel?.created ?? Math.floor(Date.now() / 1000),
+                owned_by: targetModel?.owned_by ?? 'cursor-provider-bridge'
+            });
+            knownIds.add(alias);
+        }
+
+        return advertised;
+    }
+
+    private findTarget(model: string): string | null {
+        const aliases = this.configManager.getConfiguration().modelAliases;
+
+        for (const [alias, target] of Object.entries(aliases)) {
+            if (!isWildcardPattern(alias) && alias.toLowerCase() === model.toLowerCase()) {
+                return target;
+            }
+        }
+
+        for (const [alias, target] of Object.entries(aliases)) {
+            if (!isWildcardPattern(alias)) {
+                continue;
+            }
+
+            const captures = matchWildcard(alias, model);
+            if (captures) {
+                return expandWildcard(target, captures);
+            }
+        }
+
+        return null;
+    }
+}
@@ -7,15 +7,39 @@ import {
     ChatCompletionChunk,
     ChatCompletionError,
     ModelError,
-    HttpResponse
+    HttpResponse,
+    UpstreamProvider,
+    ProviderHealth,
+    DEFAULT_PROVIDER_NAME
 } from '../types';
 import { getLogger } from '../utils/logger';
+import { matchesWildcard } from '../utils/patterns';
+import { SamplingProfileResolver } from './SamplingProfileResolver';
+import {
+    adaptOllamaChatResponse,
+    fromOllamaTags,
+    OLLAMA_CHAT_PATH,
+    OLLAMA_TAGS_PATH,
+    toOllamaChatRequest
+} from './OllamaAdapter';
+
+interface CachedModelList {
+    readonly models: ReadonlyArray<ModelInfo>;
+    readonly fetchedAt: number;
+    readonly failed?: boolean;
+}
 
 export class LLMModelProvider implements IModelProvider {
     private static readonly REQUEST_TIMEOUT = 30000;
+    private static readonly MODEL_CACHE_TTL = 30000;
+    private static readonly MODEL_FAILURE_TTL = 10000;
     private readonly logger = getLogger();
+    private readonly modelCache = new Map<string, CachedModelList>();
+    private readonly samplingProfiles: SamplingProfileResolver;
 
-    constructor(private readonly configManager: IConfigurationManager) {}
+    constructor(private readonly configManager: IConfigurationManager) {
+        this.samplingProfiles = new SamplingProfileResolver(configManager);
+    }
 
     private validateUrl(urlString: string): void {
         let url: URL;
@@ -31,34 +55,134 @@ export class LLMModelProvider implements IModelProvider {
     }
 
 
-    async getModels(): Promise<ReadonlyArray<ModelInfo>> {
+    getProviders(): ReadonlyArray<UpstreamProvider> {
         const config = this.configManager.getConfiguration();
-        const baseUrl = config.providerUrl.endsWith('/') ? config.providerUrl.slice(0, -1) : config.providerUrl;
-        const url = `${baseUrl}/v1/models`;
-        this.validateUrl(url);
+        return [
+            { name: DEFAULT_PROVIDER_NAME, url: config.providerUrl, flavor: config.providerFlavor },
+            ...config.providers
+        ];
+    }
 
-        try {
-            const response = await httpRequest(url, {
-                method: 'GET',
-                headers: this.createHeaders(),
-                timeout: LLMModelProvider.REQUEST_TIMEOUT
-            });
-
-            if (!response.ok) {
-                throw new ModelError(
-                    `Failed to fetch models: ${response.status} ${response.statusText}`
-                );
+    async resolveProvider(modelId: string): Promise<UpstreamProvider> {
+        const config = this.configManager.getConfiguration();
+        const providers = this.getProviders();
+
+        for (const rule of config.routingRules) {
+            if (!matchesWildcard(rule.model, modelId)) {
+                continue;
+            }
+
+            const provider = providers.find(candidate => candidate.name === rule.provider);
+            if (provider) {
+                return provider;
+            }
+            this.logger.warn(`Routing rule "${rule.model}" references unknown provider "${rule.provider}"`);
+        }
+
+        if (providers.length > 1) {
+            for (const provider of providers) {
+                const models = await this.getCachedProviderModels(provider);
+                if (models.some(model => model.id === modelId)) {
+                    return provider;
+                }
+            }
+        }
+
+        return providers[0];
+    }
+
+    async getModels(): Promise<ReadonlyArray<ModelInfo>> {
+        const providers = this.getProviders();
+        const modelLists = await Promise.all(providers.map(provider => this.fetchProviderModels(provider)));
+
+        const seen = new Set<string>();
+        const models: ModelInfo[] = [];
+        for (const model of modelLists.flat()) {
+            if (!seen.has(model.id)) {
+                seen.add(model.id);
+                models.push(model);
+            }
+        }
+
+        this.logger.debug(`Retrieved ${models.length} models from ${providers.length} provider(s)`);
+        return models;
+    }
+
+    private async getCachedProviderModels(provider: UpstreamProvider): Promise<ReadonlyArray<ModelInfo>> {
+        const cached = this.modelCache.get(provider.name);
+        const ttl = cached?.failed ? LLMModelProvider.MODEL_FAILURE_TTL : LLMModelProvider.MODEL_CACHE_TTL;
+        if (cached && Date.now() - cached.fetchedAt < ttl) {
+            return cached.models;
+        }
+        return this.fetchProviderModels(provider);
+    }
+
+    async getProviderHealth(): Promise<ReadonlyArray<ProviderHealth>> {
+        return Promise.all(this.getProviders().map(async provider => {
+            const startTime = Date.now();
+            try {
+                const models = await this.requestProviderModels(provider);
+                return { name: provider.name, reachable: true, modelCount: models.length, latencyMs: Date.now() - startTime };
+            } catch (error) {
+                return {
+                    name: provider.name,
+                    reachable: false,
+                    modelCount: 0,
+                    latencyMs: Date.now() - startTime,
+                    error: error instanceof Error ? error.message : String(error)
+                };
             }
+        }));
+    }
+
+    async getContextLength(modelId: string): Promise<number | undefined> {
+        const provider = await this.resolveProvider(modelId);
+        const numCtx = this.configManager.getConfiguration().ollamaOptions.num_ctx;
+        if (provider.flavor === 'ollama' && typeof numCtx === 'number' && numCtx > 0) {
+            return numCtx;
+        }
 
-            const data = await response.json() as { data: ModelInfo[] };
-            const models = data.data || [];
-            this.logger.debug(`Retrieved ${models.length} models from provider`);
-            return models;
+        const model = (await this.getCachedProviderModels(provider)).find(candidate => candidate.id === modelId);
+        const length = model?.context_length ?? model?.max_context_length ?? model?.context_window;
+        return typeof length === 'number' && length > 0 ? length : undefined;
+    }
+
+    private async fetchProviderModels(provider: UpstreamProvider): Promise<ReadonlyArray<ModelInfo>> {
+        try {
+            return await this.requestProviderModels(provider);
         } catch (error) {
-            this.logger.warn('Failed to fetch models from provider, returning empty array', error);
+            this.logger.warn(`Failed to fetch models from provider "${provider.name}", returning empty array`, error);
+            this.modelCache.set(provider.name, { models: [], fetchedAt: Date.now(), failed: true });
             return [];
         }
     }
+
+    private async requestProviderModels(provider: UpstreamProvider): Promise<ReadonlyArray<ModelInfo>> {
+        const baseUrl = provider.url.endsWith('/') ? provider.url.slice(0, -1) : provider.url;
+        const url = provider.flavor === 'ollama' ? `${baseUrl}${OLLAMA_TAGS_PATH}` : `${baseUrl}/v1/models`;
+
+        this.validateUrl(url);
+
+        const response = await httpRequest(url, {
+            method: 'GET',
+            headers: this.createHeaders(),
+            timeout: LLMModelProvider.REQUEST_TIMEOUT
+        });
+
+        if (!response.ok) {
+            throw new ModelError(
+                `Failed to fetch models: ${response.status} ${response.statusText}`
+            );
+        }
+
+        const providerModels = provider.flavor === 'ollama'
+            ? fromOllamaTags(await response.json() as Parameters<typeof fromOllamaTags>[0])
+            : (await response.json() as { data: ModelInfo[] }).data || [];
+        const models = providerModels.map(model => ({ ...model, owned_by: provider.name }));
+        this.modelCache.set(provider.name, { models, fetchedAt: Date.now() });
+        this.logger.debug(`Retrieved ${models.length} models from provider "${provider.name}"`);
+        return models;
+    }
     
     async isModelLoaded(modelId: string): Promise<boolean> {
         if (!modelId.trim()) {
@@ -79,22 +203,30 @@ export class LLMModelProvider implements IModelProvider {
     async createChatCompletion(request: ChatCompletionRequest): Promise<AsyncIterableIterator<ChatCompletionChunk>> {
         this.validateChatCompletionRequest(request);
 
-        const config = this.configManager.getConfiguration();
-        const baseUrl = config.providerUrl.endsWith('/') ? config.providerUrl.slice(0, -1) : config.providerUrl;
-        const url = `${baseUrl}/v1/chat/completions`;
+        const provider = await this.resolveProvider(request.model);
+        const baseUrl = provider.url.endsWith('/') ? provider.url.slice(0, -1) : provider.url;
+        const isOllama = provider.flavor === 'ollama';
+        const url = `${baseUrl}${isOllama ? OLLAMA_CHAT_PATH : '/v1/chat/completions'}`;
         this.validateUrl(url);
 
         const requestBody = this.buildChatCompletionBody(request);
+        const upstreamBody = isOllama
+            ? toOllamaChatRequest(requestBody, this.configManager.getConfiguration().ollamaOptions)
+            : requestBody;
 
-        const response = await httpRequest(url, {
+        const upstreamResponse = await httpRequest(url, {
             method: 'POST',
             headers: {
                 ...this.createHeaders(),
                 'Content-Type': 'application/json'
             },
-            body: JSON.stringify(requestBody),
-            timeout: LLMModelProvider.REQUEST_TIMEOUT
+            body: JSON.stringify(upstreamBody),
+            timeout: LLMModelProvider.REQUEST_TIMEOUT,
+            stream: true
         });
+        const response = isOllama
+            ? await adaptOllamaChatResponse(upstreamResponse, request.model, requestBody.stream === true)
+            : upstreamResponse;
 
         if (!response.ok) {
             throw new ModelError(
@@ -104,6 +236,7 @@ export class LLMModelProvider implements IModelProvider {
 
         this.logger.debug('Starting chat completion stream', {
             model: request.model,
+            provider: provider.name,
             messageCount: request.messages.length
         });
 
@@ -117,16 +250,21 @@ export class LLMModelProvider implements IModelProvider {
     }
 
     private buildChatCompletionBody(request: ChatCompletionRequest): Record<string, unknown> {
-        return {
+        const body = this.samplingProfiles.apply({
             model: request.model,
             messages: request.messages,
-            temperature: request.temperature ?? 0.7,
+            temperature: request.temperature,
             stream: request.stream ?? true,
             max_tokens: request.max_tokens,
             top_p: request.top_p,
+            top_k: request.top_k,
+            min_p: request.min_p,
+            repeat_penalty: request.repeat_penalty,
+            stop: request.stop,
             frequency_penalty: request.frequency_penalty,
             presence_penalty: request.presence_penalty
-        };
+        });
+        return { ...body, temperature: body.temperature ?? 0.7 };
     }
 
     private validateChatCompletionRequest(request: ChatCompletionRequest): void {
@@ -139,7 +277,10 @@ export class LLMModelProvider implements IModelProvider {
         }
 
         for (const message of request.messages) {
-            if (!message.role || !message.content?.trim()) {
+            const hasContent = typeof message.content === 'string'
+                ? message.content.trim().length > 0
+                : Array.isArray(message.content) && message.content.length > 0;
+            if (!message.role || (!hasContent && !message.tool_calls?.length)) {
                 throw new ModelError('Each message must have a role and content');
             }
         }
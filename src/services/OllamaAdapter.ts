@@ -0,0 +1,339 @@
+import * as crypto from 'crypto';
+import { Readable, Transform, TransformCallback } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { HttpResponse } from '../utils/httpClient';
+import { ModelInfo, OllamaOptions } from '../types';
+import { formatSseEvent, SSE_DONE } from '../utils/sse';
+import { readStreamText } from '../utils/streams';
+
+interface OllamaToolCall {
+    readonly function: { readonly name: string; readonly arguments: unknown };
+}
+
+interface OllamaChatResponse {
+    readonly model?: string;
+    readonly created_at?: string;
+    readonly message?: {
+        readonly role?: string;
+        readonly content?: string;
+        readonly thinking?: string;
+        readonly tool_calls?: ReadonlyArray<OllamaToolCall>;
+    };
+    readonly done?: boolean;
+    readonly done_reason?: string;
+    readonly prompt_eval_count?: number;
+    readonly eval_count?: number;
+    readonly error?: string;
+}
+
+interface OllamaTag {
+    readonly name: string;
+    readonly model?: string;
+    readonly modified_at?: string;
+}
+
+const SAMPLING_OPTIONS: Readonly<Record<string, string>> = {
+    temperature: 'temperature',
+    top_p: 'top_p',
+    top_k: 'top_k',
+    min_p: 'min_p',
+    seed: 'seed',
+    stop: 'stop',
+    max_tokens: 'num_predict',
+    frequency_penalty: 'frequency_penalty',
+    presence_penalty: 'presence_penalty',
+    repeat_penalty: 'repeat_penalty'
+};
+
+export const OLLAMA_CHAT_PATH = '/api/chat';
+export const OLLAMA_TAGS_PATH = '/api/tags';
+
+export function toOllamaChatRequest(body: Record<string, unknown>, ollamaOptions: OllamaOptions): Record<string, unknown> {
+    const { keep_alive: keepAlive, ...configuredOptions } = ollamaOptions;
+    const options: Record<string, unknown> = { ...configuredOptions };
+
+    for (const [openAiKey, ollamaKey] of Object.entries(SAMPLING_OPTIONS)) {
+        if (body[openAiKey] !== undefined && body[openAiKey] !== null) {
+            options[ollamaKey] = body[openAiKey];
+        }
+    }
+
+    const request: Record<string, unknown> = {
+        model: body.model,
+        messages: Array.isArray(body.messages) ? body.messages.map(convertMessage) : [],
+        stream: body.stream === true,
+        options
+    };
+
+    if (keepAlive !== undefined) {
+        request.keep_alive = keepAlive;
+    }
+    if (Array.isArray(body.tools) && body.tools.length > 0) {
+        request.tools = body.tools;
+    }
+
+    const responseFormat = body.response_format as { type?: string; json_schema?: { schema?: unknown } } | undefined;
+    if (responseFormat?.type === 'json_object') {
+        request.format = 'json';
+    } else if (responseFormat?.type === 'json_schema' && responseFormat.json_schema?.schema) {
+        request.format = responseFormat.json_schema.schema;
+    }
+
+    return request;
+}
+
+function convertMessage(message: Record<string, unknown>): Record<string, unknown> {
+    const converted: Record<string, unknown> = { role: message.role };
+    const images: string[] = [];
+
+    if (Array.isArray(message.content)) {
+        const text: string[] = [];
+        for (const part of message.content as Array<Record<string, unknown>>) {
+            if (part.type === 'text' && typeof part.text === 'string') {
+                text.push(part.text);
+            } else if (part.type === 'image_url') {
+                const url = (part.image_url as { url?: string } | undefined)?.url ?? '';
+                const match = /^data:[^;]+;base64,(.*)$/.exec(url);
+                if (match) {
+                    images.push(match[1]);
+                }
+            }
+        }
+        converted.content = text.join('');
+    } else {
+        converted.content = message.content ?? '';
+    }
+
+    if (images.length > 0) {
+        converted.images = images;
+    }
+
+    if (Array.isArray(message.tool_calls)) {
+        converted.tool_calls = (message.tool_calls as Array<{ function?: { name?: string; arguments?: string } }>)
+            .map(toolCall => ({
+                function: {
+                    name: toolCall.function?.name ?? '',
+                    arguments: parseArguments(toolCall.function?.arguments)
+                }
+            }));
+    }
+
+    if (typeof message.tool_call_id === 'string') {
+        converted.tool_call_id = message.tool_call_id;
+    }
+
+    return converted;
+}
+
+function parseArguments(args: string | undefined): unknown {
+    if (!args) {
+        return {};
+    }
+    try {
+        return JSON.parse(args);
+    } catch {
+        return {};
+    }
+}
+
+function toOpenAiToolCalls(toolCalls: ReadonlyArray<OllamaToolCall>, withIndex: boolean): Record<string, unknown>[] {
+    return toolCalls.map((toolCall, index) => ({
+        ...(withIndex ? { index } : {}),
+        id: `call_${crypto.randomBytes(12).toString('hex')}`,
+        type: 'function',
+        function: {
+            name: toolCall.function.name,
+            arguments: typeof toolCall.function.arguments === 'string'
+                ? toolCall.function.arguments
+                : JSON.stringify(toolCall.function.arguments ?? {})
+        }
+    }));
+}
+
+function toFinishReason(response: OllamaChatResponse, hasToolCalls: boolean): string {
+    if (hasToolCalls) {
+        return 'tool_calls';
+    }
+    return response.done_reason === 'length' ? 'length' : 'stop';
+}
+
+function toUsage(response: OllamaChatResponse): Record<string, number> {
+    const promptTokens = response.prompt_eval_count ?? 0;
+    const completionTokens = response.eval_count ?? 0;
+    return {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens
+    };
+}
+
+export function fromOllamaChatResponse(response: OllamaChatResponse, model: string): Record<string, unknown> {
+    const toolCalls = response.message?.tool_calls ?? [];
+    const message: Record<string, unknown> = {
+        role: 'assistant',
+        content: response.message?.content ?? ''
+    };
+
+    if (response.message?.thinking) {
+        message.reasoning_content = response.message.thinking;
+    }
+    if (toolCalls.length > 0) {
+        message.tool_calls = toOpenAiToolCalls(toolCalls, false);
+    }
+
+    return {
+        id: `chatcmpl-${crypto.randomBytes(12).toString('hex')}`,
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: [{ index: 0, message, finish_reason: toFinishReason(response, toolCalls.length > 0) }],
+        usage: toUsage(response)
+    };
+}
+
+export function fromOllamaTags(response: { models?: ReadonlyArray<OllamaTag> }): ModelInfo[] {
+    return (response.models ?? []).map(tag => ({
+        id: tag.name,
+        object: 'model',
+        created: tag.modified_at ? Math.floor(Date.parse(tag.modified_at) / 1000) : 0,
+        owned_by: 'ollama'
+    }));
+}
+
+export class OllamaStreamTranslator {
+    private readonly decoder = new StringDecoder('utf8');
+    private readonly completionId = `chatcmpl-${crypto.randomBytes(12).toString('hex')}`;
+    private readonly created = Math.floor(Date.now() / 1000);
+    private buffer = '';
+    private sentRole = false;
+    private toolCallCount = 0;
+    private output: string[] = [];
+
+    constructor(private readonly model: string) {}
+
+    translate(chunk: Buffer): string {
+        this.buffer += this.decoder.write(chunk);
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+            this.processLine(line);
+        }
+        return this.drain();
+    }
+
+    finish(): string {
+        this.processLine(this.buffer + this.decoder.end());
+        this.buffer = '';
+        return this.drain();
+    }
+
+    private drain(): string {
+        const output = this.output.join('');
+        this.output = [];
+        return output;
+    }
+
+    private processLine(line: string): void {
+        if (!line.trim()) {
+            return;
+        }
+
+        let response: OllamaChatResponse;
+        try {
+            response = JSON.parse(line) as OllamaChatResponse;
+        } catch {
+            this.pushError(`Ollama sent an unreadable stream line: ${line.slice(0, 200)}`);
+            return;
+        }
+
+        if (response.error) {
+            this.pushError(response.error);
+            return;
+        }
+
+        const delta: Record<string, unknown> = {};
+        if (!this.sentRole) {
+            delta.role = 'assistant';
+            this.sentRole = true;
+        }
+        if (response.message?.content) {
+            delta.content = response.message.content;
+        }
+        if (response.message?.thinking) {
+            delta.reasoning_content = response.message.thinking;
+        }
+        if (response.message?.tool_calls?.length) {
+            delta.tool_calls = toOpenAiToolCalls(response.message.tool_calls, true)
+                .map(toolCall => ({ ...toolCall, index: this.toolCallCount + (toolCall.index as number) }));
+            this.toolCallCount += response.message.tool_calls.length;
+        }
+
+        if (Object.keys(delta).length > 0) {
+            this.pushChunk({ index: 0, delta, finish_reason: null });
+        }
+
+        if (response.done) {
+            this.pushChunk({ index: 0, delta: {}, finish_reason: toFinishReason(response, this.toolCallCount > 0) });
+            this.pushChunk(null, toUsage(response));
+            this.output.push(formatSseEvent(SSE_DONE));
+        }
+    }
+
+    private pushError(message: string): void {
+        this.output.push(formatSseEvent({ error: { message, type: 'provider_error' } }));
+    }
+
+    private pushChunk(choice: Record<string, unknown> | null, usage?: Record<string, number>): void {
+        this.output.push(formatSseEvent({
+            id: this.completionId,
+            object: 'chat.completion.chunk',
+            created: this.created,
+            model: this.model,
+            choices: choice ? [choice] : [],
+            ...(usage ? { usage } : {})
+        }));
+    }
+}
+
+function createOllamaStreamTransform(model: string): Transform {
+    const translator = new OllamaStreamTranslator(model);
+
+    return new Transform({
+        transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+            try {
+                callback(null, translator.translate(chunk));
+            } catch (error) {
+                callback(error instanceof Error ? error : new Error(String(error)));
+            }
+        },
+        flush(callback: TransformCallback): void {
+            try {
+                callback(null, translator.finish());
+            } catch (error) {
+                callback(error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+    });
+}
+
+export async function adaptOllamaChatResponse(response: HttpResponse, model: string, stream: boolean): Promise<HttpResponse> {
+    if (!response.ok || !response.body) {
+        return response;
+    }
+
+    const headers = new Map<string, string>();
+    if (stream) {
+        headers.set('content-type', 'text/event-stream');
+        headers.set('cache-control', 'no-cache');
+        const transform = createOllamaStreamTransform(model);
+        response.body.on('error', error => transform.destroy(error));
+        return { ...response, headers, body: response.body.pipe(transform) };
+    }
+
+    const ollamaResponse = JSON.parse(await readStreamText(response.body)) as OllamaChatResponse;
+    const completion = JSON.stringify(fromOllamaChatResponse(ollamaResponse, model));
+    headers.set('content-type', 'application/json');
+
+    return { ...response, headers, body: Readable.from([completion]) };
+}
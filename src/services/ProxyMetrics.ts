@@ -0,0 +1,153 @@
+import * as http from 'http';
+
+interface Histogram {
+    readonly buckets: number[];
+    count: number;
+    sum: number;
+}
+
+export interface MetricSample {
+    readonly name: string;
+    readonly value: number;
+    readonly labels?: Readonly<Record<string, string>>;
+}
+
+export class ProxyMetrics {
+    private static readonly LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+    private static readonly KNOWN_ENDPOINTS = ['/chat/completions', '/completions', '/embeddings', '/models', '/messages', '/responses', '/api/chat', '/api/tags'];
+
+    private readonly requestCounts = new Map<string, number>();
+    private readonly errorCounts = new Map<string, number>();
+    private readonly queueTimeouts = new Map<string, number>();
+    private readonly cancellations = new Map<string, number>();
+    private readonly cacheLookups = new Map<string, number>();
+    private readonly latencies = new Map<string, Histogram>();
+    private readonly queueWaits = new Map<string, Histogram>();
+    private readonly openResponses = new Set<http.ServerResponse>();
+    private readonly startedAt = Date.now();
+
+    track(res: http.ServerResponse, method: string, pathname: string): void {
+        const endpoint = this.normalizeEndpoint(pathname);
+        const startTime = Date.now();
+        this.openResponses.add(res);
+
+        res.on('close', () => {
+            this.openResponses.delete(res);
+
+            const status = res.writableFinished ? String(res.statusCode) : 'aborted';
+            this.increment(this.requestCounts, `method="${method}",endpoint="${endpoint}",status="${status}"`);
+            if (!res.writableFinished || res.statusCode >= 400) {
+                this.increment(this.errorCounts, `endpoint="${endpoint}",code="${status}"`);
+            }
+            this.observe(this.latencies, `endpoint="${endpoint}"`, (Date.now() - startTime) / 1000);
+        });
+    }
+
+    observeQueueWait(provider: string, waitMs: number): void {
+        this.observe(this.queueWaits, `provider="${this.escapeLabel(provider)}"`, waitMs / 1000);
+    }
+
+    recordQueueTimeout(provider: string): void {
+        this.increment(this.queueTimeouts, `provider="${this.escapeLabel(provider)}"`);
+    }
+
+    recordCancellation(provider: string): void {
+        this.increment(this.cancellations, `provider="${this.escapeLabel(provider)}"`);
+    }
+
+    recordCacheLookup(hit: boolean): void {
+        this.increment(this.cacheLookups, `result="${hit ? 'hit' : 'miss'}"`);
+    }
+
+    getActiveStreamCount(): number {
+        let count = 0;
+        for (const res of this.openResponses) {
+            if (res.headersSent && String(res.getHeader('content-type') ?? '').includes('text/event-stream')) {
+                count++;
+            }
+        }
+        return count;
+    }
+
+    render(gauges: ReadonlyArray<MetricSample> = []): string {
+        const lines: string[] = [];
+
+        this.renderCounter(lines, 'requests_total', 'Requests handled by the proxy.', this.requestCounts);
+        this.renderCounter(lines, 'request_errors_total', 'Requests that failed or were aborted, by status code.', this.errorCounts);
+        this.renderCounter(lines, 'queue_timeouts_total', 'Requests rejected after waiting too long for a provider slot.', this.queueTimeouts);
+        this.renderCounter(lines, 'upstream_cancellations_total', 'Upstream requests aborted because the client disconnected.', this.cancellations);
+        this.renderCounter(lines, 'cache_lookups_total', 'Response cache lookups by result.', this.cacheLookups);
+        this.renderHistogram(lines, 'request_duration_seconds', 'Time from receiving a request to finishing its response.', this.latencies);
+        this.renderHistogram(lines, 'queue_wait_seconds', 'Time requests spent waiting for a provider slot.', this.queueWaits);
+
+        const allGauges: MetricSample[] = [
+            { name: 'active_requests', value: this.openResponses.size },
+            { name: 'active_streams', value: this.getActiveStreamCount() },
+            { name: 'uptime_seconds', value: Math.floor((Date.now() - this.startedAt) / 1000) },
+            ...gauges
+        ];
+        const declared = new Set<string>();
+        for (const gauge of allGauges) {
+            if (!declared.has(gauge.name)) {
+                declared.add(gauge.name);
+                lines.push(`# TYPE cursor_bridge_${gauge.name} gauge`);
+            }
+            const labels = Object.entries(gauge.labels ?? {})
+                .map(([key, value]) => `${key}="${this.escapeLabel(value)}"`)
+                .join(',');
+            lines.push(`cursor_bridge_${gauge.name}${labels ? `{${labels}}` : ''} ${gauge.value}`);
+        }
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    private renderCounter(lines: string[], name: string, help: string, counts: Map<string, number>): void {
+        lines.push(`# HELP cursor_bridge_${name} ${help}`);
+        lines.push(`# TYPE cursor_bridge_${name} counter`);
+        for (const [labels, value] of counts) {
+            lines.push(`cursor_bridge_${name}{${labels}} ${value}`);
+        }
+    }
+
+    private renderHistogram(lines: string[], name: string, help: string, histograms: Map<string, Histogram>): void {
+        lines.push(`# HELP cursor_bridge_${name} ${help}`);
+        lines.push(`# TYPE cursor_bridge_${name} histogram`);
+        for (const [labels, histogram] of histograms) {
+            ProxyMetrics.LATENCY_BUCKETS.forEach((bound, index) => {
+                lines.push(`cursor_bridge_${name}_bucket{${labels},le="${bound}"} ${histogram.buckets[index]}`);
+            });
+            lines.push(`cursor_bridge_${name}_bucket{${labels},le="+Inf"} ${histogram.count}`);
+            lines.push(`cursor_bridge_${name}_sum{${labels}} ${histogram.sum}`);
+            lines.push(`cursor_bridge_${name}_count{${labels}} ${histogram.count}`);
+        }
+    }
+
+    private normalizeEndpoint(pathname: string): string {
+        const path = pathname.startsWith('/v1/') ? pathname.slice(3) : pathname;
+        return ProxyMetrics.KNOWN_ENDPOINTS.includes(path) ? path : 'other';
+    }
+
+    private escapeLabel(value: string): string {
+        return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    }
+
+    private increment(counts: Map<string, number>, labels: string): void {
+        counts.set(labels, (counts.get(labels) ?? 0) + 1);
+    }
+
+    private observe(histograms: Map<string, Histogram>, labels: string, seconds: number): void {
+        let histogram = histograms.get(labels);
+        if (!histogram) {
+            histogram = { buckets: ProxyMetrics.LATENCY_BUCKETS.map(() => 0), count: 0, sum: 0 };
+            histograms.set(labels, histogram);
+        }
+
+        ProxyMetrics.LATENCY_BUCKETS.forEach((bound, index) => {
+            if (seconds <= bound) {
+                histogram!.buckets[index]++;
+            }
+        });
+        histogram.count++;
+        histogram.sum += seconds;
+    }
+}
@@ -1,42 +1,111 @@
 import * as http from 'http';
 import * as url from 'url';
 import * as net from 'net';
-import { httpRequest } from '../utils/httpClient';
+import * as crypto from 'crypto';
+import { httpRequest, HttpResponse } from '../utils/httpClient';
 import {
     IConfigurationManager,
     IModelProvider,
     ChatCompletionRequest,
     ModelInfo,
     ModelError,
-    BridgeError
+    BridgeError,
+    UpstreamProvider,
+    FailoverEvent,
+    ChatCompletionResponse,
+    ChatStreamTranslator,
+    ChatResponseProcessor,
+    ToolDefinition,
+    TunnelStatus,
+    QueueTimeoutError,
+    ContextLengthError,
+    RequestPriority,
+    REQUEST_PRIORITIES
 } from '../types';
 import { getLogger } from '../utils/logger';
+import { ModelAliasResolver } from './ModelAliasResolver';
+import { ContextWindowManager } from './ContextWindowManager';
+import { SamplingProfileResolver } from './SamplingProfileResolver';
+import * as anthropic from './AnthropicMessagesAdapter';
+import * as responses from './ResponsesApiAdapter';
+import { SseParser, SSE_DONE } from '../utils/sse';
+import { readStreamText } from '../utils/streams';
+import { matchesWildcard } from '../utils/patterns';
+import { applyChatProcessors, assembleChatCompletion, getStreamErrorMessage } from '../utils/chatStream';
+import { ResponseKeepAlive, SSE_HEADERS } from '../utils/keepAlive';
+import { requestsTools, toEmulatedToolRequest, ToolCallEmulationProcessor } from './ToolCallEmulator';
+import { ReasoningProcessor } from './ReasoningProcessor';
+import { RequestCapture, RequestTracker } from './RequestTracker';
+import { ResponseCache } from './ResponseCache';
+import { MetricSample, ProxyMetrics } from './ProxyMetrics';
+import { ConcurrencyLimiter, ConcurrencySlot } from './ConcurrencyLimiter';
+import { adaptOllamaChatResponse, OLLAMA_CHAT_PATH, toOllamaChatRequest } from './OllamaAdapter';
+import { formatUrlHost, isWildcardHost } from '../utils/network';
+
+interface UpstreamAttempt {
+    readonly provider: UpstreamProvider;
+    readonly model?: string;
+}
+
+interface PreparedChatRequest {
+    readonly request: Record<string, unknown>;
+    readonly processors: ReadonlyArray<ChatResponseProcessor>;
+    readonly reassembleStream: boolean;
+}
+
+interface ChatProtocolAdapter {
+    readonly name: string;
+    formatError(statusCode: number, message: string): unknown;
+    fromChatCompletion(completion: ChatCompletionResponse): unknown;
+    createStreamTranslator(): ChatStreamTranslator;
+}
 
 export class ProxyServer {
-    private static readonly SERVER_PORT = 8082;
+    private static readonly MAX_PORT_SCAN = 20;
+    private static readonly BRIDGE_PATH_PREFIX = '/bridge/';
+    private static readonly WATCHDOG_PATH = '/bridge/watchdog';
 
     private server: http.Server | null = null;
+    private port: number | null = null;
+    private host = 'localhost';
+    private lastFailover: FailoverEvent | null = null;
     private readonly logger = getLogger();
+    private readonly aliasResolver: ModelAliasResolver;
+    private readonly contextWindow: ContextWindowManager;
+    private readonly samplingProfiles: SamplingProfileResolver;
+    private readonly captures = new WeakMap<http.IncomingMessage, RequestCapture>();
+    private readonly metrics = new ProxyMetrics();
+    private readonly limiter = new ConcurrencyLimiter();
+    private readonly abortControllers = new WeakMap<http.IncomingMessage, AbortController>();
+    private readonly watchdogToken = crypto.randomBytes(16).toString('hex');
+    private readonly failoverListeners = new Set<(event: FailoverEvent) => void>();
     private isRunning = false;
 
     constructor(
         private readonly configManager: IConfigurationManager,
-        private readonly modelProvider: IModelProvider
-    ) {}
+        private readonly modelProvider: IModelProvider,
+        private readonly requestTracker?: RequestTracker,
+        private readonly getTunnelStatus?: () => TunnelStatus,
+        private readonly responseCache?: ResponseCache
+    ) {
+        this.aliasResolver = new ModelAliasResolver(configManager);
+        this.contextWindow = new ContextWindowManager(configManager, modelProvider);
+        this.samplingProfiles = new SamplingProfileResolver(configManager);
+    }
 
     async start(): Promise<number> {
         if (this.isRunning) {
             throw new BridgeError('Proxy server is already running', 'SERVER_ALREADY_RUNNING');
         }
 
-        const portStatus = await this.checkPortStatus(ProxyServer.SERVER_PORT);
-        if (portStatus.inUse) {
-            throw new BridgeError(
-                `Port ${ProxyServer.SERVER_PORT} is already in use. Please stop any other applications using this port or restart Cursor.`,
-                'PORT_IN_USE'
-            );
+        const config = this.configManager.getConfiguration();
+        if (config.requireApiKey) {
+            await this.configManager.ensureBridgeApiKey();
         }
 
+        const host = config.listenHost.trim() || 'localhost';
+        const port = await this.resolveListenPort(host, config.proxyPort, config.autoSelectProxyPort);
+
         return new Promise((resolve, reject) => {
             this.server = http.createServer((req, res) => {
                 this.handleRequest(req, res).catch(error => {
@@ -49,19 +118,48 @@ export class ProxyServer {
                 this.logger.error('Proxy server error', error);
                 this.isRunning = false;
                 if (error.code === 'EADDRINUSE') {
-                    reject(new BridgeError(`Port ${ProxyServer.SERVER_PORT} is already in use`, 'PORT_IN_USE', error));
+                    reject(new BridgeError(`Port ${port} is already in use`, 'PORT_IN_USE', error));
                 } else {
                     reject(new BridgeError('Failed to start proxy server', 'SERVER_START_ERROR', error));
                 }
             });
 
-            this.server.listen(ProxyServer.SERVER_PORT, 'localhost', () => {
+            this.server.listen(port, host, () => {
                 this.isRunning = true;
-                resolve(ProxyServer.SERVER_PORT);
+                this.port = port;
+                this.host = host;
+                resolve(port);
             });
         });
     }
 
+    private async resolveListenPort(host: string, preferredPort: number, autoSelect: boolean): Promise<number> {
+        const portStatus = await this.checkPortStatus(host, preferredPort);
+        if (!portStatus.inUse) {
+            return preferredPort;
+        }
+
+        if (!autoSelect) {
+            throw new BridgeError(
+                `Port ${preferredPort} is already in use. Please stop any other applications using this port, choose another proxy port or enable automatic port selection.`,
+                'PORT_IN_USE'
+            );
+        }
+
+        for (let port = preferredPort + 1; port <= Math.min(preferredPort + ProxyServer.MAX_PORT_SCAN, 65535); port++) {
+            const status = await this.checkPortStatus(host, port);
+            if (!status.inUse) {
+                this.logger.info(`Port ${preferredPort} is in use, using port ${port} instead`);
+                return port;
+            }
+        }
+
+        throw new BridgeError(
+            `No free port found between ${preferredPort} and ${preferredPort + ProxyServer.MAX_PORT_SCAN}. Please choose another proxy port.`,
+            'PORT_IN_USE'
+        );
+    }
+
     async stop(): Promise<void> {
         if (!this.server || !this.isRunning) {
             return;
@@ -71,6 +169,7 @@ export class ProxyServer {
             this.server!.close((error) => {
                 this.isRunning = false;
                 this.server = null;
+                this.port = null;
 
                 if (error) {
                     this.logger.error('Error stopping proxy server', error);
@@ -83,13 +182,35 @@ export class ProxyServer {
     }
 
     getPort(): number {
-        return ProxyServer.SERVER_PORT;
+        return this.port ?? this.configManager.getConfiguration().proxyPort;
+    }
+
+    getWatchdogProbePath(): string {
+        return `${ProxyServer.WATCHDOG_PATH}?token=${this.watchdogToken}`;
+    }
+
+    getLocalUrl(): string {
+        const host = isWildcardHost(this.host) ? 'localhost' : formatUrlHost(this.host);
+        return `http://${host}:${this.getPort()}`;
     }
 
     isServerRunning(): boolean {
         return this.isRunning;
     }
 
+    getLastFailover(): FailoverEvent | null {
+        return this.lastFailover;
+    }
+
+    onDidFailover(listener: (event: FailoverEvent) => void): { dispose(): void } {
+        this.failoverListeners.add(listener);
+        return {
+            dispose: () => {
+                this.failoverListeners.delete(listener);
+            }
+        };
+    }
+
     private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
         const startTime = Date.now();
         const method = req.method || 'GET';
@@ -104,20 +225,208 @@ export class ProxyServer {
             return;
         }
 
+        const parsedUrl = url.parse(requestUrl, true);
+        const pathname = parsedUrl.pathname || '/';
+        if (pathname === ProxyServer.WATCHDOG_PATH) {
+            this.handleWatchdogProbe(res, parsedUrl.query.token);
+            return;
+        }
+
+        if (pathname.startsWith(ProxyServer.BRIDGE_PATH_PREFIX)) {
+            await this.handleBridgeEndpoint(req, res, pathname, method);
+            return;
+        }
+
+        this.metrics.track(res, method, pathname);
+        this.watchForDisconnect(req, res);
+        this.trackRequest(req, res, method, requestUrl);
+
+        if (!this.isAuthorized(req)) {
+            this.logger.warn(`Rejected unauthorized ${method} ${requestUrl}`);
+            res.setHeader('WWW-Authenticate', 'Bearer');
+            this.sendErrorResponse(
+                res,
+                401,
+                'Incorrect API key provided. Use the bridge API key from the Cursor Provider Bridge menu as your OpenAI API key.',
+                'invalid_request_error',
+                'invalid_api_key'
+            );
+            return;
+        }
+
         try {
             await this.routeRequest(req, res, requestUrl, method);
             this.logger.debug(`${method} ${requestUrl} completed in ${Date.now() - startTime}ms`);
         } catch (error) {
+            if (this.isClientGone(req)) {
+                this.logger.debug(`${method} ${requestUrl} cancelled by client after ${Date.now() - startTime}ms`);
+                return;
+            }
             this.handleRequestError(error, method, requestUrl, res);
         }
     }
 
+    private async handleBridgeEndpoint(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        pathname: string,
+        method: string
+    ): Promise<void> {
+        if (!this.isLocalRequest(req)) {
+            if (!this.configManager.getConfiguration().allowRemoteMonitoring) {
+                this.logger.warn(`Rejected remote request to ${pathname}`);
+                this.sendErrorResponse(res, 403, 'Bridge monitoring endpoints are only available from localhost. Enable allowRemoteMonitoring to reach them with a bridge API key.');
+                return;
+            }
+            if (!this.isAuthorized(req)) {
+                this.sendErrorResponse(res, 401, 'Incorrect API key provided', 'invalid_request_error', 'invalid_api_key');
+                return;
+            }
+        }
+
+        if (method !== 'GET' && method !== 'HEAD') {
+            res.setHeader('Allow', 'GET, HEAD');
+            this.sendErrorResponse(res, 405, `Method ${method} not allowed`);
+            return;
+        }
+
+        switch (pathname) {
+            case '/bridge/health':
+                await this.handleHealth(res);
+                break;
+            case '/bridge/metrics':
+                this.handleMetrics(res);
+                break;
+            default:
+                this.sendErrorResponse(res, 404, `Unknown bridge endpoint: ${pathname}`);
+        }
+    }
+
+    private handleWatchdogProbe(res: http.ServerResponse, token: string | string[] | undefined): void {
+        if (typeof token !== 'string' || !this.safeCompare(this.watchdogToken, token)) {
+            this.sendErrorResponse(res, 404, `Unknown bridge endpoint: ${ProxyServer.WATCHDOG_PATH}`);
+            return;
+        }
+        this.sendJsonResponse(res, 200, { status: 'ok' });
+    }
+
+    private async handleHealth(res: http.ServerResponse): Promise<void> {
+        const providers = await this.modelProvider.getProviderHealth();
+        const tunnel = this.getTunnelStatus?.();
+        const healthy = providers.every(provider => provider.reachable) && (tunnel?.isRunning ?? true);
+
+        this.sendJsonResponse(res, healthy ? 200 : 503, {
+            status: healthy ? 'ok' : 'degraded',
+            proxy: { running: this.isRunning, port: this.port },
+            tunnel: tunnel ? { running: tunnel.isRunning, url: tunnel.url ?? null, error: tunnel.error ?? null } : null,
+            providers,
+            modelCount: providers.reduce((total, provider) => total + provider.modelCount, 0)
+        });
+    }
+
+    private handleMetrics(res: http.ServerResponse): void {
+        const tunnel = this.getTunnelStatus?.();
+        const gauges: MetricSample[] = tunnel ? [{ name: 'tunnel_up', value: tunnel.isRunning ? 1 : 0 }] : [];
+        const queues = this.limiter.getSnapshot();
+        for (const queue of queues) {
+            gauges.push({ name: 'upstream_active_requests', labels: { provider: queue.provider }, value: queue.active });
+        }
+        for (const queue of queues) {
+            gauges.push({ name: 'queue_depth', labels: { provider: queue.provider }, value: queue.queued });
+        }
+        const body = this.metrics.render(gauges);
+
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(body);
+    }
+
+    private isLocalRequest(req: http.IncomingMessage): boolean {
+        if (req.headers['x-forwarded-for'] || req.headers.forwarded) {
+            return false;
+        }
+
+        // SSH and command tunnels forward public traffic from the loopback address without forwarding headers
+        const { tunnelProvider } = this.configManager.getConfiguration();
+        if (tunnelProvider === 'ssh' || tunnelProvider === 'command') {
+            return false;
+        }
+
+        const address = req.socket.remoteAddress ?? '';
+        return address === '::1' || address.startsWith('127.') || address.startsWith('::ffff:127.');
+    }
+
+    private trackRequest(req: http.IncomingMessage, res: http.ServerResponse, method: string, requestUrl: string): void {
+        if (!this.requestTracker) {
+            return;
+        }
+
+        const capture = this.requestTracker.begin(method, url.parse(requestUrl).pathname || '/');
+        this.captures.set(req, capture);
+        res.on('close', () => {
+            capture.complete(res.statusCode, res.writableFinished ? undefined : 'Client closed the connection');
+        });
+    }
+
+    private watchForDisconnect(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const controller = new AbortController();
+        this.abortControllers.set(req, controller);
+        res.on('close', () => {
+            if (!res.writableFinished) {
+                controller.abort();
+            }
+        });
+    }
+
+    private isClientGone(req: http.IncomingMessage): boolean {
+        return this.abortControllers.get(req)?.signal.aborted === true;
+    }
+
+    private tapResponse(req: http.IncomingMessage, response: HttpResponse): HttpResponse {
+        const capture = this.captures.get(req);
+        return capture ? capture.tap(response) : response;
+    }
+
+    private isAuthorized(req: http.IncomingMessage): boolean {
+        const config = this.configManager.getConfiguration();
+        if (!config.requireApiKey) {
+            return true;
+        }
+
+        const header = req.headers.authorization;
+        const match = header ? /^Bearer\s+(.+)$/i.exec(header) : null;
+        const apiKeyHeader = req.headers['x-api-key'];
+        const providedKey = match ? match[1].trim() : typeof apiKeyHeader === 'string' ? apiKeyHeader.trim() : '';
+        if (!providedKey) {
+            return false;
+        }
+
+        return config.bridgeApiKeys.some(key => this.safeCompare(key, providedKey));
+    }
+
+    private safeCompare(expected: string, actual: string): boolean {
+        const expectedBuffer = Buffer.from(expected);
+        const actualBuffer = Buffer.from(actual);
+        if (expectedBuffer.length !== actualBuffer.length) {
+            return false;
+        }
+        return crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+    }
+
     private async routeRequest(req: http.IncomingMessage, res: http.ServerResponse, requestUrl: string, method: string): Promise<void> {
         const pathname = url.parse(requestUrl, true).pathname || '/';
         const isChatEndpoint = (pathname === '/chat/completions' || pathname === '/v1/chat/completions') && method === 'POST';
+        const isModelsEndpoint = (pathname === '/models' || pathname === '/v1/models') && method === 'GET';
+        const isMessagesEndpoint = (pathname === '/messages' || pathname === '/v1/messages') && method === 'POST';
+        const isResponsesEndpoint = (pathname === '/responses' || pathname === '/v1/responses') && method === 'POST';
         
         if (isChatEndpoint) {
             await this.handleChatCompletions(req, res);
+        } else if (isMessagesEndpoint) {
+            await this.handleAnthropicMessages(req, res);
+        } else if (isResponsesEndpoint) {
+            await this.handleResponses(req, res);
+        } else if (isModelsEndpoint && this.shouldServeModelList()) {
+            await this.handleModelsList(res);
         } else {
             await this.forwardRequest(req, res);
         }
@@ -142,12 +451,23 @@ export class ProxyServer {
         if (!requestData || res.headersSent) {return;}
 
         try {
-            if (this.isTestPrompt(requestData)) {
-                await this.handleTestPrompt(req, res, requestData);
-            } else {
-                await this.forwardChatCompletionRequest(req, res, body);
+            const model = await this.resolveRequestModel(requestData);
+            if (!model) {
+                this.sendErrorResponse(res, 503, 'No suitable models available from provider');
+                return;
             }
+
+            const chatRequest: Record<string, unknown> = { ...requestData, model };
+            const prepared = this.prepareChatRequest(await this.contextWindow.fit(this.samplingProfiles.apply(chatRequest)));
+            const forwardBody = model === requestData.model && prepared.request === chatRequest
+                ? body
+                : JSON.stringify(prepared.request);
+            await this.forwardChatCompletionRequest(req, res, forwardBody, model, prepared);
         } catch (error) {
+            if (error instanceof ContextLengthError) {
+                this.sendErrorResponse(res, 400, error.message, 'invalid_request_error', 'context_length_exceeded');
+                return;
+            }
             this.logger.error('Error in chat completions handler', error);
             const errorMessage = error instanceof ModelError ? error.message : 'Internal server error';
             if (!res.headersSent) {
@@ -156,6 +476,202 @@ export class ProxyServer {
         }
     }
 
+    private async handleAnthropicMessages(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const body = await this.readRequestBody(req);
+        const request = this.parseJsonObject(body) as anthropic.AnthropicMessagesRequest | null;
+        const validationError = request ? anthropic.validateAnthropicRequest(request) : 'Invalid JSON in request body';
+
+        if (!request || validationError) {
+            this.sendJsonResponse(res, 400, anthropic.formatAnthropicError(400, validationError ?? 'Invalid request'));
+            return;
+        }
+
+        const model = this.aliasResolver.resolve(request.model);
+        await this.forwardTranslatedChatRequest(req, res, anthropic.toChatCompletionRequest(request, model), {
+            name: 'Messages',
+            formatError: anthropic.formatAnthropicError,
+            fromChatCompletion: completion => anthropic.fromChatCompletion(completion, request.model),
+            createStreamTranslator: () => new anthropic.AnthropicStreamTranslator(request.model)
+        });
+    }
+
+    private async handleResponses(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const body = await this.readRequestBody(req);
+        const request = this.parseJsonObject(body) as responses.ResponsesRequest | null;
+        const validationError = request ? responses.validateResponsesRequest(request) : 'Invalid JSON in request body';
+
+        if (!request || validationError) {
+            this.sendJsonResponse(res, 400, responses.formatResponsesError(400, validationError ?? 'Invalid request'));
+            return;
+        }
+
+        const model = this.aliasResolver.resolve(request.model);
+        await this.forwardTranslatedChatRequest(req, res, responses.toChatCompletionRequest(request, model), {
+            name: 'Responses',
+            formatError: responses.formatResponsesError,
+            fromChatCompletion: completion => responses.fromChatCompletion(completion, request),
+            createStreamTranslator: () => new responses.ResponsesStreamTranslator(request)
+        });
+    }
+
+    private async forwardTranslatedChatRequest(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        chatRequest: Record<string, unknown>,
+        adapter: ChatProtocolAdapter
+    ): Promise<void> {
+        const model = String(chatRequest.model);
+        const stream = chatRequest.stream === true;
+        let fittedRequest: Record<string, unknown>;
+        try {
+            fittedRequest = await this.contextWindow.fit(this.samplingProfiles.apply(chatRequest));
+        } catch (error) {
+            if (error instanceof ContextLengthError) {
+                this.sendJsonResponse(res, 400, adapter.formatError(400, error.message));
+                return;
+            }
+            throw error;
+        }
+        const prepared = this.prepareChatRequest(fittedRequest);
+        const keepAlive = this.startKeepAlive(res, stream, prepared.reassembleStream);
+        const sendError = (statusCode: number, message: string) => {
+            keepAlive?.stop();
+            if (!keepAlive?.hasCommittedResponse()) {
+                this.sendJsonResponse(res, statusCode, adapter.formatError(statusCode, message));
+            } else if (stream) {
+                res.end(adapter.createStreamTranslator().error(message));
+            } else {
+                res.end(JSON.stringify(adapter.formatError(statusCode, message)));
+            }
+        };
+
+        let upstreamResponse: HttpResponse;
+        try {
+            upstreamResponse = await this.requestUpstream(req, '/v1/chat/completions', JSON.stringify(prepared.request), model);
+        } catch (error) {
+            if (error instanceof QueueTimeoutError) {
+                if (!res.headersSent) {
+                    res.setHeader('Retry-After', String(error.retryAfterSeconds));
+                }
+                sendError(429, error.message);
+                return;
+            }
+            if (keepAlive?.hasCommittedResponse() && !this.isClientGone(req)) {
+                this.logger.error(`Error forwarding ${adapter.name} request`, error);
+                sendError(502, 'Unable to reach provider');
+                return;
+            }
+            keepAlive?.stop();
+            throw error;
+        }
+        const response = this.tapResponse(req, await applyChatProcessors(upstreamResponse, prepared.processors));
+
+        if (!response.ok || !response.body) {
+            const errorText = response.body ? await readStreamText(response.body) : response.statusText;
+            this.logger.warn(`Provider rejected translated ${adapter.name} request: ${response.status}`, errorText);
+            sendError(response.status, this.extractErrorMessage(errorText, response.statusText));
+            return;
+        }
+
+        if (!stream) {
+            const completion = prepared.reassembleStream && this.isEventStream(response)
+                ? await assembleChatCompletion(response.body)
+                : JSON.parse(await readStreamText(response.body)) as ChatCompletionResponse;
+            keepAlive?.stop();
+            this.finishJsonResponse(res, 200, adapter.fromChatCompletion(completion));
+            return;
+        }
+
+        const translator = adapter.createStreamTranslator();
+        if (!res.headersSent) {
+            res.writeHead(200, SSE_HEADERS);
+        }
+        res.write(translator.start());
+
+        const parser = new SseParser();
+        try {
+            for await (const chunk of response.body) {
+                keepAlive?.stop();
+                for (const event of parser.feed(chunk as Buffer)) {
+                    if (event.data === SSE_DONE) {
+                        continue;
+                    }
+
+                    const data = JSON.parse(event.data);
+                    const upstreamError = getStreamErrorMessage(data);
+                    if (upstreamError !== null) {
+                        this.logger.warn(`Provider reported an error in translated ${adapter.name} stream`, upstreamError);
+                        res.end(translator.error(upstreamError));
+                        return;
+                    }
+                    res.write(translator.translate(data));
+                }
+            }
+            res.end(translator.finish());
+        } catch (error) {
+            keepAlive?.stop();
+            if (this.isClientGone(req)) {
+                return;
+            }
+            this.logger.error(`Error translating ${adapter.name} stream`, error);
+            res.end(translator.error('Error reading response from provider'));
+        }
+    }
+
+    private prepareChatRequest(request: Record<string, unknown>): PreparedChatRequest {
+        const { reasoningMode, toolEmulationModels, streamNonStreamingRequests } = this.configManager.getConfiguration();
+        const model = String(request.model ?? '');
+        const processors: ChatResponseProcessor[] = [];
+        let prepared = request;
+
+        if (reasoningMode !== 'passthrough') {
+            processors.push(new ReasoningProcessor(reasoningMode));
+        }
+
+        const emulateTools = requestsTools(request) &&
+            toolEmulationModels.some(pattern => matchesWildcard(pattern, model));
+        if (emulateTools) {
+            const tools = (request.tools ?? []) as ReadonlyArray<ToolDefinition>;
+            if (tools.length > 0 && request.tool_choice !== 'none') {
+                processors.push(new ToolCallEmulationProcessor(tools));
+            }
+
+            this.logger.debug(`Emulating tool calling for model ${model}`);
+            prepared = toEmulatedToolRequest(request);
+        }
+
+        const reassembleStream = streamNonStreamingRequests && request.stream !== true;
+        if (reassembleStream) {
+            prepared = { ...prepared, stream: true, stream_options: { include_usage: true } };
+        }
+
+        return { request: prepared, processors, reassembleStream };
+    }
+
+    private startKeepAlive(res: http.ServerResponse, stream: boolean, reassembleStream: boolean): ResponseKeepAlive | null {
+        const intervalMs = this.configManager.getConfiguration().keepAliveIntervalSeconds * 1000;
+        if (intervalMs <= 0 || (!stream && !reassembleStream)) {
+            return null;
+        }
+        return new ResponseKeepAlive(res, stream ? 'sse' : 'json', intervalMs).start();
+    }
+
+    private isEventStream(response: HttpResponse): boolean {
+        return (response.headers.get('content-type') ?? '').includes('text/event-stream');
+    }
+
+    private extractErrorMessage(errorText: string, fallback: string): string {
+        const parsed = this.parseJsonObject(errorText);
+        const error = parsed?.error;
+        if (typeof error === 'string') {
+            return error;
+        }
+        if (error && typeof error === 'object' && typeof (error as Record<string, unknown>).message === 'string') {
+            return (error as Record<string, unknown>).message as string;
+        }
+        return errorText || fallback;
+    }
+
     private parseAndValidateRequest(body: string, res: http.ServerResponse): ChatCompletionRequest | null {
         let requestData: ChatCompletionRequest;
         
@@ -181,33 +697,68 @@ export class ProxyServer {
     private async forwardChatCompletionRequest(
         req: http.IncomingMessage, 
         res: http.ServerResponse, 
-        body: string
+        body: string,
+        model: string,
+        prepared: PreparedChatRequest
     ): Promise<void> {
-        const config = this.configManager.getConfiguration();
-        const baseUrl = config.providerUrl.endsWith('/') ? config.providerUrl.slice(0, -1) : config.providerUrl;
-        const targetUrl = this.validateAndBuildUrl(baseUrl, '/v1/chat/completions');
-
-        await this.forwardRequestToTarget(req, res, targetUrl, body);
+        await this.forwardRequestToTarget(req, res, '/v1/chat/completions', body, model, prepared);
     }
 
     private async forwardRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
-        const config = this.configManager.getConfiguration();
         const requestUrl = req.url || '/';
         
-        const baseUrl = config.providerUrl.endsWith('/') ? config.providerUrl.slice(0, -1) : config.providerUrl;
-        
         let path = requestUrl.startsWith('/') ? requestUrl : `/${requestUrl}`;
         if (!path.startsWith('/v1') && this.isApiEndpoint(path)) {
             path = `/v1${path}`;
         }
         
-        const targetUrl = this.validateAndBuildUrl(baseUrl, path);
-        
         const body = req.method === 'POST' || req.method === 'PUT' || req.method === 'PATCH' 
-            ? await this.readRequestBody(req) 
+            ? this.applyModelAlias(await this.readRequestBody(req))
             : undefined;
 
-        await this.forwardRequestToTarget(req, res, targetUrl, body);
+        const model = body ? this.extractModel(body) : undefined;
+        await this.forwardRequestToTarget(req, res, path, body, model);
+    }
+
+    private shouldServeModelList(): boolean {
+        const providers = this.modelProvider.getProviders();
+        return this.aliasResolver.hasAliases() ||
+            providers.length > 1 ||
+            providers.some(provider => provider.flavor !== 'openai');
+    }
+
+    private async handleModelsList(res: http.ServerResponse): Promise<void> {
+        const models = await this.modelProvider.getModels();
+        const data = this.aliasResolver.advertiseAliases(models);
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ object: 'list', data }));
+    }
+
+    private applyModelAlias(body: string): string {
+        const request = this.parseJsonObject(body);
+        if (!request || typeof request.model !== 'string') {
+            return body;
+        }
+
+        const model = this.aliasResolver.resolve(request.model);
+        return model === request.model ? body : this.replaceModel(body, model);
+    }
+
+    private extractModel(body: string): string | undefined {
+        const request = this.parseJsonObject(body);
+        return typeof request?.model === 'string' ? request.model : undefined;
+    }
+
+    private parseJsonObject(body: string): Record<string, unknown> | null {
+        try {
+            const parsed: unknown = JSON.parse(body);
+            return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+                ? parsed as Record<string, unknown>
+                : null;
+        } catch {
+            return null;
+        }
     }
 
     private isApiEndpoint(path: string): boolean {
@@ -220,21 +771,17 @@ export class ProxyServer {
         return messages.length > 1 && messages[1].content === 'Test prompt using gpt-3.5-turbo';
     }
 
-    private async handleTestPrompt(
-        req: http.IncomingMessage,
-        res: http.ServerResponse,
-        requestData: ChatCompletionRequest
-    ): Promise<void> {
-        const models = await this.modelProvider.getModels();
-        const availableModel = this.selectNonEmbeddingModel(models);
-        
-        if (!availableModel) {
-            this.sendErrorResponse(res, 503, 'No suitable models available from provider');
-            return;
+    private async resolveRequestModel(requestData: ChatCompletionRequest): Promise<string | null> {
+        if (this.aliasResolver.hasAlias(requestData.model)) {
+            return this.aliasResolver.resolve(requestData.model);
+        }
+
+        if (!this.isTestPrompt(requestData)) {
+            return requestData.model;
         }
 
-        const modifiedRequest = { ...requestData, model: availableModel.id };
-        await this.forwardChatCompletionRequest(req, res, JSON.stringify(modifiedRequest));
+        const models = await this.modelProvider.getModels();
+        return this.selectNonEmbeddingModel(models)?.id ?? null;
     }
 
     private selectNonEmbeddingModel(models: ReadonlyArray<ModelInfo>): ModelInfo | undefined {
@@ -247,29 +794,75 @@ export class ProxyServer {
     private async forwardRequestToTarget(
         req: http.IncomingMessage,
         res: http.ServerResponse,
-        targetUrl: string,
-        body?: string
+        path: string,
+        body?: string,
+        model?: string,
+        chat?: PreparedChatRequest
     ): Promise<void> {
         if (res.headersSent) {return;}
 
+        const stream = chat?.request.stream === true && !chat.reassembleStream;
+        const keepAlive = chat ? this.startKeepAlive(res, stream, chat.reassembleStream) : null;
+
         try {
-            const headers = this.extractRequestHeaders(req);
-            const httpOptions = { method: req.method, headers, body, stream: true };
-            const response = await httpRequest(targetUrl, httpOptions);
+            const response = this.tapResponse(
+                req,
+                await applyChatProcessors(await this.requestUpstream(req, path, body, model), chat?.processors ?? [])
+            );
+            const committed = keepAlive?.hasCommittedResponse() === true;
+
+            if (res.headersSent && !committed) {
+                response.body?.resume();
+                return;
+            }
 
-            if (res.headersSent) {return;}
+            if (chat?.reassembleStream && response.ok && response.body && this.isEventStream(response)) {
+                const completion = await assembleChatCompletion(response.body);
+                keepAlive?.stop();
+                this.finishJsonResponse(res, 200, completion);
+                return;
+            }
 
-            const responseHeaders = this.filterResponseHeaders(response.headers);
-            res.writeHead(response.status, response.statusText, responseHeaders);
+            if (committed && !response.ok) {
+                keepAlive!.stop();
+                const errorText = response.body ? await readStreamText(response.body) : response.statusText;
+                this.sendErrorAfterKeepAlive(res, stream, response.status, this.extractErrorMessage(errorText, response.statusText));
+                return;
+            }
+
+            if (!committed) {
+                const responseHeaders = this.filterResponseHeaders(response.headers);
+                res.writeHead(response.status, response.statusText, responseHeaders);
+            }
             
             if (response.body) {
                 response.body.pipe(res);
+                keepAlive?.stopOnData(response.body);
             } else {
+                keepAlive?.stop();
                 res.end();
             }
         } catch (error) {
+            keepAlive?.stop();
+            if (this.isClientGone(req)) {
+                this.logger.debug('Client disconnected before the provider responded');
+                return;
+            }
+            const committed = keepAlive?.hasCommittedResponse() === true;
+            if (error instanceof QueueTimeoutError) {
+                this.logger.warn(error.message);
+                if (committed) {
+                    this.sendErrorAfterKeepAlive(res, stream, 429, error.message);
+                    return;
+                }
+                res.setHeader('Retry-After', String(error.retryAfterSeconds));
+                this.sendErrorResponse(res, 429, error.message, 'requests', 'rate_limit_exceeded');
+                return;
+            }
             this.logger.error('Error forwarding request', error);
-            if (!res.headersSent) {
+            if (committed) {
+                this.sendErrorAfterKeepAlive(res, stream, 502, 'Bad Gateway - Unable to reach provider');
+            } else if (!res.headersSent) {
                 this.sendErrorResponse(res, 502, 'Bad Gateway - Unable to reach provider');
             } else {
                 this.safeEndResponse(res);
@@ -277,9 +870,229 @@ export class ProxyServer {
         }
     }
 
+    private async requestUpstream(
+        req: http.IncomingMessage,
+        path: string,
+        body?: string,
+        model?: string
+    ): Promise<HttpResponse> {
+        const cache = this.responseCache;
+        if (!cache || !this.configManager.getConfiguration().responseCacheEnabled) {
+            return this.requestWithFailover(req, path, body, model);
+        }
+
+        const provider = model ? await this.modelProvider.resolveProvider(model) : this.modelProvider.getProviders()[0];
+        const cacheHeader = req.headers['x-bridge-cache'];
+        const cacheKey = cache.getKey(path, body, provider, typeof cacheHeader === 'string' ? cacheHeader : undefined);
+        if (!cacheKey) {
+            return this.requestWithFailover(req, path, body, model);
+        }
+
+        const cached = await cache.lookup(cacheKey);
+        this.metrics.recordCacheLookup(cached !== null);
+        if (cached) {
+            this.captures.get(req)?.setUpstream(model, 'cache');
+            return cached;
+        }
+
+        return cache.record(cacheKey, await this.requestWithFailover(req, path, body, model));
+    }
+
+    private async requestWithFailover(
+        req: http.IncomingMessage,
+        path: string,
+        body?: string,
+        model?: string
+    ): Promise<HttpResponse> {
+        const attempts = await this.buildUpstreamAttempts(model);
+        const headers = this.extractRequestHeaders(req);
+        const priority = this.getRequestPriority(req, body);
+        const signal = this.abortControllers.get(req)?.signal;
+        let lastError: unknown = null;
+
+        for (let index = 0; index < attempts.length; index++) {
+            const attempt = attempts[index];
+            const nextAttempt = attempts[index + 1];
+            let failureReason: string;
+
+            try {
+                const attemptBody = body && attempt.model ? this.replaceModel(body, attempt.model) : body;
+                const response = await this.sendUpstreamRequest(
+                    attempt.provider,
+                    req.method,
+                    path,
+                    headers,
+                    attemptBody,
+                    priority,
+                    signal
+                );
+
+                if (response.status < 500 || !nextAttempt) {
+                    this.captures.get(req)?.setUpstream(attempt.model ?? model, attempt.provider.name);
+                    return response;
+                }
+
+                response.body?.resume();
+                failureReason = `HTTP ${response.status}`;
+            } catch (error) {
+                if (!nextAttempt || signal?.aborted) {
+                    throw error;
+                }
+                lastError = error;
+                failureReason = error instanceof Error ? error.message : String(error);
+            }
+
+            this.recordFailover(attempt, nextAttempt, failureReason);
+        }
+
+        throw lastError ?? new BridgeError('No upstream provider available', 'NO_PROVIDER');
+    }
+
+    private getRequestPriority(req: http.IncomingMessage, body?: string): RequestPriority {
+        const header = req.headers['x-bridge-priority'];
+        const requested = typeof header === 'string' ? header.trim().toLowerCase() : '';
+        if (REQUEST_PRIORITIES.includes(requested as RequestPriority)) {
+            return requested as RequestPriority;
+        }
+
+        if (this.configManager.getConfiguration().prioritizeStreamingRequests && body) {
+            return this.parseJsonObject(body)?.stream === true ? 'high' : 'normal';
+        }
+        return 'normal';
+    }
+
+    private async sendUpstreamRequest(
+        provider: UpstreamProvider,
+        method: string | undefined,
+        path: string,
+        headers: Record<string, string>,
+        body: string | undefined,
+        priority: RequestPriority,
+        signal?: AbortSignal
+    ): Promise<HttpResponse> {
+        const config = this.configManager.getConfiguration();
+        const limit = provider.maxConcurrentRequests ?? config.maxConcurrentRequests;
+
+        let slot: ConcurrencySlot;
+        try {
+            slot = await this.limiter.acquire(provider.name, limit, priority, config.maxQueueWaitSeconds * 1000, signal);
+        } catch (error) {
+            if (error instanceof QueueTimeoutError) {
+                this.metrics.recordQueueTimeout(provider.name);
+            }
+            throw error;
+        }
+
+        if (slot.waitMs > 0) {
+            this.logger.debug(`Request waited ${slot.waitMs}ms for a "${provider.name}" slot`);
+        }
+        this.metrics.observeQueueWait(provider.name, slot.waitMs);
+
+        const onAbort = () => {
+            this.metrics.recordCancellation(provider.name);
+            this.logger.info(`Client disconnected, cancelled upstream request to provider "${provider.name}"`);
+        };
+        const finish = () => {
+            signal?.removeEventListener('abort', onAbort);
+            slot.release();
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        try {
+            const request = body ? this.parseJsonObject(body) : null;
+            const isOllamaChat = provider.flavor === 'ollama' &&
+                path.split('?')[0] === '/v1/chat/completions' &&
+                request !== null;
+
+            const response = isOllamaChat
+                ? await httpRequest(this.validateAndBuildUrl(provider.url, OLLAMA_CHAT_PATH), {
+                    method: 'POST',
+                    headers,
+                    body: JSON.stringify(toOllamaChatRequest(request, config.ollamaOptions)),
+                    stream: true,
+                    signal
+                })
+                : await httpRequest(this.validateAndBuildUrl(provider.url, path), { method, headers, body, stream: true, signal });
+
+            if (response.body) {
+                response.body.once('end', finish);
+                response.body.once('close', finish);
+                response.body.on('error', error => {
+                    finish();
+                    if (!signal?.aborted) {
+                        this.logger.warn(`Error reading response from provider "${provider.name}"`, error);
+                    }
+                });
+            } else {
+                finish();
+            }
+
+            return isOllamaChat
+                ? adaptOllamaChatResponse(response, String(request.model ?? ''), request.stream === true)
+                : response;
+        } catch (error) {
+            finish();
+            throw error;
+        }
+    }
+
+    private async buildUpstreamAttempts(model?: string): Promise<UpstreamAttempt[]> {
+        const providers = this.modelProvider.getProviders();
+        const primary = model ? await this.modelProvider.resolveProvider(model) : providers[0];
+        const attempts: UpstreamAttempt[] = [{ provider: primary }];
+
+        for (const target of this.configManager.getConfiguration().failoverChain) {
+            const provider = providers.find(candidate => candidate.name === target.provider);
+            if (!provider) {
+                this.logger.warn(`Failover chain references unknown provider "${target.provider}"`);
+                continue;
+            }
+
+            const isDuplicate = attempts.some(attempt =>
+                attempt.provider.name === provider.name && (attempt.model ?? model) === (target.model ?? model)
+            );
+            if (!isDuplicate) {
+                attempts.push({ provider, model: model ? target.model : undefined });
+            }
+        }
+
+        return attempts;
+    }
+
+    private recordFailover(from: UpstreamAttempt, to: UpstreamAttempt, reason: string): void {
+        const event: FailoverEvent = {
+            fromProvider: from.provider.name,
+            toProvider: to.provider.name,
+            reason,
+            timestamp: Date.now()
+        };
+        this.lastFailover = event;
+
+        const modelInfo = to.model ? ` with model "${to.model}"` : '';
+        this.logger.warn(`Provider "${from.provider.name}" failed (${reason}), failing over to "${to.provider.name}"${modelInfo}`);
+
+        for (const listener of this.failoverListeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                this.logger.error('Error in failover listener', error);
+            }
+        }
+    }
+
+    private replaceModel(body: string, model: string): string {
+        const request = this.parseJsonObject(body);
+        return request ? JSON.stringify({ ...request, model }) : body;
+    }
+
     private extractRequestHeaders(req: http.IncomingMessage): Record<string, string> {
         const headers: Record<string, string> = {};
-        const relevantHeaders = ['content-type', 'authorization', 'user-agent'];
+        const relevantHeaders = ['content-type', 'user-agent'];
+
+        // The bridge API key must never reach the local provider
+        if (!this.configManager.getConfiguration().requireApiKey) {
+            relevantHeaders.push('authorization');
+        }
         
         for (const header of relevantHeaders) {
             if (req.headers[header]) {
@@ -309,6 +1122,7 @@ export class ProxyServer {
             });
 
             req.on('end', () => {
+                this.captures.get(req)?.setRequestBody(body);
                 resolve(body);
             });
 
@@ -354,7 +1168,7 @@ export class ProxyServer {
 
         res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
         res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Api-Key, Anthropic-Version, X-Bridge-Priority, X-Bridge-Cache');
         res.setHeader('Access-Control-Max-Age', '86400');
         res.setHeader('Access-Control-Allow-Credentials', 'true');
     }
@@ -369,7 +1183,34 @@ export class ProxyServer {
         }
     }
 
-    private sendErrorResponse(res: http.ServerResponse, statusCode: number, message: string): void {
+    private sendJsonResponse(res: http.ServerResponse, statusCode: number, body: unknown): void {
+        if (res.headersSent) {
+            return;
+        }
+
+        res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    }
+
+    private finishJsonResponse(res: http.ServerResponse, statusCode: number, body: unknown): void {
+        if (!res.headersSent) {
+            res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+        }
+        res.end(JSON.stringify(body));
+    }
+
+    private sendErrorAfterKeepAlive(res: http.ServerResponse, stream: boolean, statusCode: number, message: string): void {
+        const error = { error: { message, type: 'proxy_error', param: null, code: statusCode } };
+        res.end(stream ? `data: ${JSON.stringify(error)}\n\n` : JSON.stringify(error));
+    }
+
+    private sendErrorResponse(
+        res: http.ServerResponse,
+        statusCode: number,
+        message: string,
+        type: string = 'proxy_error',
+        code: string | number = statusCode
+    ): void {
         if (res.headersSent) {
             return;
         }
@@ -378,8 +1219,9 @@ export class ProxyServer {
             const errorResponse = {
                 error: {
                     message,
-                    type: 'proxy_error',
-                    code: statusCode
+                    type,
+                    param: null,
+                    code
                 }
             };
 
@@ -400,6 +1242,7 @@ export class ProxyServer {
     }
 
     dispose(): void {
+        this.failoverListeners.clear();
         if (this.isRunning) {
             this.stop().catch(error => {
                 this.logger.error('Error during proxy server disposal', error);
@@ -433,11 +1276,11 @@ export class ProxyServer {
         }
     }
 
-    private async checkPortStatus(port: number): Promise<{ inUse: boolean; error?: Error }> {
+    private async checkPortStatus(host: string, port: number): Promise<{ inUse: boolean; error?: Error }> {
         return new Promise((resolve) => {
             const server = net.createServer();
             
-            server.listen(port, 'localhost', () => {
+            server.listen(port, host, () => {
                 server.close(() => {
                     resolve({ inUse: false });
                 });
@@ -0,0 +1,196 @@
+import { createChunk, withTemplateUsage } from '../utils/chatStream';
+import {
+    ChatCompletionChunk,
+    ChatCompletionResponse,
+    ChatResponseProcessor,
+    ReasoningMode
+} from '../types';
+
+interface ReasoningSegment {
+    readonly reasoning: boolean;
+    readonly text: string;
+}
+
+interface RenderedOutput {
+    content?: string;
+    reasoning_content?: string;
+}
+
+const THINK_OPEN = '<think>';
+const THINK_CLOSE = '</think>';
+const COLLAPSE_OPEN = '<details>\n<summary>Reasoning</summary>\n\n';
+const COLLAPSE_CLOSE = '\n\n</details>\n\n';
+
+export class ThinkTagParser {
+    private buffer = '';
+    private insideThink = false;
+
+    feed(text: string): ReasoningSegment[] {
+        this.buffer += text;
+        const segments: ReasoningSegment[] = [];
+
+        for (;;) {
+            const tag = this.insideThink ? THINK_CLOSE : THINK_OPEN;
+            const index = this.buffer.indexOf(tag);
+
+            if (index >= 0) {
+                this.pushSegment(segments, this.buffer.slice(0, index));
+                this.buffer = this.buffer.slice(index + tag.length);
+                this.insideThink = !this.insideThink;
+                continue;
+            }
+
+            const held = partialTagLength(this.buffer, tag);
+            this.pushSegment(segments, this.buffer.slice(0, this.buffer.length - held));
+            this.buffer = this.buffer.slice(this.buffer.length - held);
+            return segments;
+        }
+    }
+
+    finish(): ReasoningSegment[] {
+        const segments: ReasoningSegment[] = [];
+        this.pushSegment(segments, this.buffer);
+        this.buffer = '';
+        this.insideThink = false;
+        return segments;
+    }
+
+    private pushSegment(segments: ReasoningSegment[], text: string): void {
+        if (text) {
+            segments.push({ reasoning: this.insideThink, text });
+        }
+    }
+}
+
+function partialTagLength(text: string, tag: string): number {
+    for (let length = Math.min(text.length, tag.length - 1); length > 0; length--) {
+        if (tag.startsWith(text.slice(-length))) {
+            return length;
+        }
+    }
+    return 0;
+}
+
+function fieldReasoning(fields: { readonly [key: string]: unknown }): ReasoningSegment[] {
+    const text = [fields.reasoning_content, fields.reasoning]
+        .filter((value): value is string => typeof value === 'string')
+        .join('');
+    return text ? [{ reasoning: true, text }] : [];
+}
+
+export class ReasoningProcessor implements ChatResponseProcessor {
+    private readonly parser = new ThinkTagParser();
+    private lastChunk: ChatCompletionChunk | null = null;
+    private insideCollapsedBlock = false;
+    private trimLeadingText = false;
+    private finished = false;
+
+    constructor(private readonly mode: Exclude<ReasoningMode, 'passthrough'>) {}
+
+    processChunk(chunk: ChatCompletionChunk): ChatCompletionChunk[] {
+        const choice = chunk.choices[0];
+        if (!choice || this.finished) {
+            return [chunk];
+        }
+        this.lastChunk = chunk;
+
+        const { content, reasoning_content: reasoningContent, reasoning, ...delta } = choice.delta;
+        const segments = fieldReasoning({ reasoning_content: reasoningContent, reasoning });
+        if (typeof content === 'string') {
+            segments.push(...this.parser.feed(content));
+        }
+        if (choice.finish_reason) {
+            this.finished = true;
+            segments.push(...this.parser.finish());
+        }
+
+        const output = { ...delta, ...this.render(segments, Boolean(choice.finish_reason)) };
+        if (Object.keys(output).length === 0 && !choice.finish_reason) {
+            return withTemplateUsage(chunk, []);
+        }
+        return withTemplateUsage(chunk, [createChunk(chunk, output, choice.finish_reason ?? null)]);
+    }
+
+    flush(): ChatCompletionChunk[] {
+        if (this.finished || !this.lastChunk) {
+            return [];
+        }
+        this.finished = true;
+
+        const output = this.render(this.parser.finish(), true);
+        return Object.keys(output).length > 0 ? [createChunk(this.lastChunk, { ...output })] : [];
+    }
+
+    processCompletion(completion: ChatCompletionResponse): ChatCompletionResponse {
+        return {
+            ...completion,
+            choices: completion.choices?.map(choice => {
+                if (!choice.message) {
+                    return choice;
+                }
+
+                const processor = new ReasoningProcessor(this.mode);
+                const { reasoning_content: reasoningContent, reasoning, ...message } = choice.message;
+                const segments = fieldReasoning({ reasoning_content: reasoningContent, reasoning });
+                if (typeof message.content === 'string') {
+                    segments.push(...processor.parser.feed(message.content), ...processor.parser.finish());
+                }
+
+                const output = processor.render(segments, true);
+                const content = output.content ?? (typeof message.content === 'string' ? '' : message.content ?? null);
+                return {
+                    ...choice,
+                    message: {
+                        ...message,
+                        content,
+                        ...(output.reasoning_content ? { reasoning_content: output.reasoning_content } : {})
+                    }
+                };
+            })
+        };
+    }
+
+    private render(segments: ReadonlyArray<ReasoningSegment>, final: boolean): RenderedOutput {
+        let content = '';
+        let reasoningText = '';
+
+        for (const segment of segments) {
+            if (segment.reasoning) {
+                if (this.mode === 'separate') {
+                    reasoningText += segment.text;
+                } else if (this.mode === 'collapse' && (this.insideCollapsedBlock || segment.text.trim())) {
+                    content += this.insideCollapsedBlock ? segment.text : COLLAPSE_OPEN + segment.text.trimStart();
+                    this.insideCollapsedBlock = true;
+                }
+                this.trimLeadingText = true;
+                continue;
+            }
+
+            if (this.insideCollapsedBlock) {
+                content += COLLAPSE_CLOSE;
+                this.insideCollapsedBlock = false;
+            }
+
+            let text = segment.text;
+            if (this.trimLeadingText) {
+                text = text.trimStart();
+                this.trimLeadingText = !text;
+            }
+            content += text;
+        }
+
+        if (final && this.insideCollapsedBlock) {
+            content += COLLAPSE_CLOSE;
+            this.insideCollapsedBlock = false;
+        }
+
+        const output: RenderedOutput = {};
+        if (content) {
+            output.content = content;
+        }
+        if (reasoningText) {
+            output.reasoning_content = reasoningText;
+        }
+        return output;
+    }
+}
@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BridgeConfiguration, IConfigurationManager, RequestRecord } from '../types';
+import { getLogger } from '../utils/logger';
+import { redactSecrets } from '../utils/redact';
+import { RequestTracker } from './RequestTracker';
+
+export class RequestHistory implements vscode.Disposable {
+    private static readonly FILE_NAME = 'request-history.jsonl';
+    private static readonly TRIM_RATIO = 0.8;
+    private static readonly CHAT_PATH = /\/(chat\/completions|completions|messages|responses)$/;
+
+    private readonly logger = getLogger();
+    private readonly historyPath: string;
+    private readonly subscription: vscode.Disposable;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(
+        storageUri: vscode.Uri,
+        private readonly configManager: IConfigurationManager,
+        requestTracker: RequestTracker
+    ) {
+        this.historyPath = path.join(storageUri.fsPath, RequestHistory.FILE_NAME);
+        this.subscription = requestTracker.onDidCompleteRequest(record => this.append(record));
+    }
+
+    async exportToFile(): Promise<void> {
+        await this.writeQueue;
+
+        const entryCount = await this.countEntries();
+        if (entryCount === 0) {
+            vscode.window.showInformationMessage(
+                this.configManager.getConfiguration().historyEnabled
+                    ? 'Request history is empty'
+                    : 'Request history is empty. Enable "Request History" in the configuration to start recording.'
+            );
+            return;
+        }
+
+        const directory = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+        const fileName = `cursor-bridge-history-${new Date().toISOString().slice(0, 10)}.jsonl`;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(directory, fileName)),
+            filters: { 'JSON Lines': ['jsonl'] },
+            saveLabel: 'Export History'
+        });
+        if (!target) {
+            return;
+        }
+
+        await fs.copyFile(this.historyPath, target.fsPath);
+        this.logger.info(`Exported ${entryCount} history entries to ${target.fsPath}`);
+        vscode.window.showInformationMessage(`Exported ${entryCount} requests to ${path.basename(target.fsPath)}`);
+    }
+
+    async clear(): Promise<void> {
+        await this.enqueue(async () => {
+            await fs.rm(this.historyPath, { force: true });
+        });
+        this.logger.info('Request history cleared');
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+    }
+
+    private append(record: RequestRecord): void {
+        const config = this.configManager.getConfiguration();
+        if (!config.historyEnabled || !RequestHistory.CHAT_PATH.test(record.path) || !record.requestBody) {
+            return;
+        }
+
+        const line = `${JSON.stringify(this.toEntry(record, config))}\n`;
+        this.enqueue(async () => {
+            await fs.mkdir(path.dirname(this.historyPath), { recursive: true });
+            await fs.appendFile(this.historyPath, line, 'utf8');
+            await this.enforceRetention(config.historyMaxSizeMB * 1024 * 1024);
+        }).catch(error => {
+            this.logger.error('Failed to write request history', error);
+        });
+    }
+
+    private toEntry(record: RequestRecord, config: BridgeConfiguration): Record<string, unknown> {
+        const secrets = [...config.bridgeApiKeys, config.ngrokAuthToken];
+        const parseBody = (body: string | undefined): unknown => {
+            if (!body) {
+                return null;
+            }
+            const redacted = redactSecrets(body, secrets, config.historyRedactPatterns);
+            try {
+                return JSON.parse(redacted);
+            } catch {
+                return redacted;
+            }
+        };
+
+        return {
+            id: record.id,
+            timestamp: new Date(record.startedAt).toISOString(),
+            method: record.method,
+            path: record.path,
+            model: record.model,
+            provider: record.provider,
+            status: record.status,
+            durationMs: record.durationMs,
+            stream: record.stream,
+            usage: record.usage,
+            error: record.error,
+            request: parseBody(record.requestBody),
+            response: parseBody(record.responseBody)
+        };
+    }
+
+    private async enforceRetention(maxBytes: number): Promise<void> {
+        const { size } = await fs.stat(this.historyPath);
+        if (size <= maxBytes) {
+            return;
+        }
+
+        const lines = (await fs.readFile(this.historyPath, 'utf8')).split('\n').filter(Boolean);
+        const targetBytes = maxBytes * RequestHistory.TRIM_RATIO;
+        let keptBytes = 0;
+        let firstKept = lines.length;
+
+        while (firstKept > 0) {
+            const lineBytes = Buffer.byteLength(lines[firstKept - 1]) + 1;
+            if (keptBytes + lineBytes > targetBytes) {
+                break;
+            }
+            keptBytes += lineBytes;
+            firstKept--;
+        }
+
+        const kept = lines.slice(firstKept);
+        await fs.writeFile(this.historyPath, kept.length > 0 ? `${kept.join('\n')}\n` : '', 'utf8');
+        this.logger.debug(`Trimmed ${firstKept} entries from request history`);
+    }
+
+    private async countEntries(): Promise<number> {
+        try {
+            const content = await fs.readFile(this.historyPath, 'utf8');
+            return content.split('\n').filter(Boolean).length;
+        } catch {
+            return 0;
+        }
+    }
+
+    private enqueue(operation: () => Promise<void>): Promise<void> {
+        const result = this.writeQueue.then(operation);
+        this.writeQueue = result.catch(() => undefined);
+        return result;
+    }
+}
@@ -0,0 +1,286 @@
+import * as vscode from 'vscode';
+import { getLogger } from '../utils/logger';
+import { RequestTracker } from './RequestTracker';
+
+export class RequestInspector implements vscode.Disposable {
+    private static readonly REFRESH_DELAY = 250;
+
+    private readonly logger = getLogger();
+    private panel: vscode.WebviewPanel | undefined;
+    private trackerSubscription: vscode.Disposable | undefined;
+    private refreshTimeout: NodeJS.Timeout | null = null;
+
+    constructor(private readonly requestTracker: RequestTracker) {}
+
+    show(): void {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'cursorProviderBridgeInspector',
+            'Cursor Provider Bridge - Request Inspector',
+            vscode.ViewColumn.One,
+            { enableScripts: true, localResourceRoots: [], retainContextWhenHidden: true }
+        );
+
+        this.panel.webview.html = this.getWebviewContent();
+        this.panel.webview.onDidReceiveMessage(message => {
+            try {
+                switch (message.command) {
+                    case 'ready':
+                        this.postRecords();
+                        break;
+                    case 'getDetails':
+                        this.panel?.webview.postMessage({
+                            command: 'details',
+                            record: this.requestTracker.getRecord(message.id) ?? null
+                        });
+                        break;
+                    case 'clear':
+                        this.requestTracker.clear();
+                        break;
+                }
+            } catch (error) {
+                this.logger.error('Request inspector message handling failed', error);
+            }
+        });
+
+        this.trackerSubscription = this.requestTracker.onDidChange(() => this.scheduleRefresh());
+
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+            this.trackerSubscription?.dispose();
+            this.trackerSubscription = undefined;
+            if (this.refreshTimeout) {
+                clearTimeout(this.refreshTimeout);
+                this.refreshTimeout = null;
+            }
+        });
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimeout) {
+            return;
+        }
+        this.refreshTimeout = setTimeout(() => {
+            this.refreshTimeout = null;
+            this.postRecords();
+        }, RequestInspector.REFRESH_DELAY);
+    }
+
+    private postRecords(): void {
+        this.panel?.webview.postMessage({ command: 'records', records: this.requestTracker.getRecords() });
+    }
+
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline';">
+    <title>Request Inspector</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+            padding: 16px;
+        }
+
+        .toolbar {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            margin-bottom: 12px;
+        }
+
+        .summary { color: var(--vscode-descriptionForeground); }
+
+        button {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 4px 12px;
+            cursor: pointer;
+        }
+
+        button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+
+        table { width: 100%; border-collapse: collapse; }
+
+        th, td {
+            text-align: left;
+            padding: 4px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            white-space: nowrap;
+        }
+
+        th { color: var(--vscode-descriptionForeground); font-weight: 600; }
+
+        tbody tr { cursor: pointer; }
+        tbody tr:hover { background: var(--vscode-list-hoverBackground); }
+        tbody tr.selected { background: var(--vscode-list-activeSelectionBackground); color: var(--vscode-list-activeSelectionForeground); }
+
+        .error { color: var(--vscode-errorForeground); }
+        .pending { color: var(--vscode-descriptionForeground); }
+
+        .details { margin-top: 16px; display: none; }
+        .details.visible { display: block; }
+
+        h3 { margin: 12px 0 6px; font-size: 13px; }
+
+        pre {
+            background: var(--vscode-textCodeBlock-background);
+            font-family: var(--vscode-editor-font-family);
+            padding: 8px;
+            max-height: 400px;
+            overflow: auto;
+            white-space: pre-wrap;
+            word-break: break-all;
+        }
+
+        .empty { color: var(--vscode-descriptionForeground); padding: 24px 0; text-align: center; }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <span class="summary" id="summary"></span>
+        <button onclick="clearRecords()">Clear</button>
+    </div>
+    <table>
+        <thead>
+            <tr>
+                <th>Time</th>
+                <th>Method</th>
+                <th>Route</th>
+                <th>Model</th>
+                <th>Status</th>
+                <th>Latency</th>
+                <th>Tokens</th>
+            </tr>
+        </thead>
+        <tbody id="records"></tbody>
+    </table>
+    <div class="empty" id="empty">No requests yet. Requests sent through the bridge appear here.</div>
+    <div class="details" id="details">
+        <h3 id="detailsTitle"></h3>
+        <h3>Request</h3>
+        <pre id="requestBody"></pre>
+        <h3>Response</h3>
+        <pre id="responseBody"></pre>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        let selectedId = null;
+
+        function clearRecords() {
+            selectedId = null;
+            document.getElementById('details').classList.remove('visible');
+            vscode.postMessage({ command: 'clear' });
+        }
+
+        function formatBody(body) {
+            if (!body) {
+                return '(empty)';
+            }
+            try {
+                return JSON.stringify(JSON.parse(body), null, 2);
+            } catch {
+                return body;
+            }
+        }
+
+        function formatTokens(usage) {
+            if (!usage) {
+                return '';
+            }
+            return (usage.prompt_tokens ?? 0) + ' / ' + (usage.completion_tokens ?? 0);
+        }
+
+        function cell(row, text, className) {
+            const td = document.createElement('td');
+            td.textContent = text;
+            if (className) {
+                td.className = className;
+            }
+            row.appendChild(td);
+        }
+
+        function renderRecords(records) {
+            const tbody = document.getElementById('records');
+            tbody.replaceChildren();
+            document.getElementById('empty').style.display = records.length ? 'none' : 'block';
+            document.getElementById('summary').textContent = records.length + ' recent requests';
+
+            for (const record of records) {
+                const row = document.createElement('tr');
+                if (record.id === selectedId) {
+                    row.className = 'selected';
+                }
+                const statusClass = record.status === undefined ? 'pending' : record.status >= 400 || record.error ? 'error' : '';
+
+                cell(row, new Date(record.startedAt).toLocaleTimeString());
+                cell(row, record.method);
+                cell(row, record.path);
+                cell(row, record.model ?? '');
+                cell(row, record.status === undefined ? 'pending' : String(record.status), statusClass);
+                cell(row, record.durationMs === undefined ? '' : record.durationMs + ' ms');
+                cell(row, formatTokens(record.usage));
+
+                row.addEventListener('click', () => {
+                    selectedId = record.id;
+                    vscode.postMessage({ command: 'getDetails', id: record.id });
+                    for (const selected of tbody.querySelectorAll('.selected')) {
+                        selected.classList.remove('selected');
+                    }
+                    row.classList.add('selected');
+                });
+                tbody.appendChild(row);
+            }
+        }
+
+        function renderDetails(record) {
+            const details = document.getElementById('details');
+            if (!record) {
+                details.classList.remove('visible');
+                return;
+            }
+
+            const provider = record.provider ? ' via ' + record.provider : '';
+            const error = record.error ? ' - ' + record.error : '';
+            document.getElementById('detailsTitle').textContent =
+                record.method + ' ' + record.path + provider + (record.stream ? ' (streamed)' : '') + error;
+            document.getElementById('requestBody').textContent = formatBody(record.requestBody);
+            document.getElementById('responseBody').textContent = formatBody(record.responseBody);
+            details.classList.add('visible');
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'records') {
+                renderRecords(message.records);
+                if (selectedId && message.records.some(record => record.id === selectedId && record.status !== undefined)) {
+                    vscode.postMessage({ command: 'getDetails', id: selectedId });
+                }
+            } else if (message.command === 'details') {
+                renderDetails(message.record);
+            }
+        });
+
+        vscode.postMessage({ command: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+    }
+}
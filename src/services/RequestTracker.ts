@@ -0,0 +1,214 @@
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { Transform, TransformCallback } from 'stream';
+import { ChatCompletionChunk, ChatCompletionResponse, CompletionUsage, RequestRecord } from '../types';
+import { HttpResponse } from '../utils/httpClient';
+import { ChatStreamAssembler } from '../utils/chatStream';
+import { SseParser, SSE_DONE } from '../utils/sse';
+import { getLogger } from '../utils/logger';
+
+const MAX_BODY_LENGTH = 512 * 1024;
+
+function truncate(text: string): string {
+    return text.length > MAX_BODY_LENGTH ? `${text.slice(0, MAX_BODY_LENGTH)}\n… (truncated)` : text;
+}
+
+export class RequestCapture {
+    readonly id = crypto.randomBytes(8).toString('hex');
+    readonly startedAt = Date.now();
+    private model?: string;
+    private provider?: string;
+    private status?: number;
+    private durationMs?: number;
+    private timeToFirstTokenMs?: number;
+    private stream = false;
+    private requestBody?: string;
+    private responseText = '';
+    private readonly responseChunks: Buffer[] = [];
+    private responseLength = 0;
+    private usage?: CompletionUsage;
+    private error?: string;
+    private parser: SseParser | null = null;
+    private assembler: ChatStreamAssembler | null = null;
+
+    constructor(
+        private readonly method: string,
+        private readonly path: string,
+        private readonly onComplete: (capture: RequestCapture) => void
+    ) {}
+
+    isComplete(): boolean {
+        return this.status !== undefined;
+    }
+
+    setRequestBody(body: string): void {
+        this.requestBody = truncate(body);
+    }
+
+    setUpstream(model: string | undefined, provider: string): void {
+        this.model = this.model ?? model;
+        this.provider = provider;
+    }
+
+    tap(response: HttpResponse): HttpResponse {
+        if (!response.body) {
+            return response;
+        }
+
+        const contentType = response.headers.get('content-type') ?? '';
+        this.stream = contentType.includes('text/event-stream');
+        this.parser = this.stream ? new SseParser() : null;
+        this.assembler = this.stream ? new ChatStreamAssembler() : null;
+
+        const observe = (chunk: Buffer): void => this.observe(chunk);
+        const tee = new Transform({
+            transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+                observe(chunk);
+                callback(null, chunk);
+            }
+        });
+
+        response.body.on('error', error => tee.destroy(error));
+        return { ...response, body: response.body.pipe(tee) };
+    }
+
+    complete(status: number, error?: string): void {
+        if (this.isComplete()) {
+            return;
+        }
+        this.status = status;
+        this.durationMs = Date.now() - this.startedAt;
+        this.error = error;
+        this.responseText = Buffer.concat(this.responseChunks).toString('utf8');
+        this.responseChunks.length = 0;
+        this.usage = this.readUsage();
+        this.onComplete(this);
+    }
+
+    toRecord(includeBodies = false): RequestRecord {
+        return {
+            id: this.id,
+            method: this.method,
+            path: this.path,
+            startedAt: this.startedAt,
+            model: this.model,
+            provider: this.provider,
+            status: this.status,
+            durationMs: this.durationMs,
+            timeToFirstTokenMs: this.timeToFirstTokenMs,
+            stream: this.stream,
+            usage: this.usage ?? this.assembler?.getUsage(),
+            error: this.error,
+            ...(includeBodies ? { requestBody: this.requestBody, responseBody: this.getResponseBody() } : {})
+        };
+    }
+
+    private observe(chunk: Buffer): void {
+        try {
+            if (!this.parser || !this.assembler) {
+                if (this.responseLength <= MAX_BODY_LENGTH) {
+                    this.responseChunks.push(chunk);
+                    this.responseLength += chunk.length;
+                }
+                return;
+            }
+
+            for (const event of this.parser.feed(chunk)) {
+                if (event.data === SSE_DONE) {
+                    continue;
+                }
+                const data = JSON.parse(event.data) as ChatCompletionChunk;
+                if (Array.isArray(data?.choices)) {
+                    this.assembler.add(data);
+                }
+                if (this.timeToFirstTokenMs === undefined && this.assembler.hasOutput()) {
+                    this.timeToFirstTokenMs = Date.now() - this.startedAt;
+                }
+            }
+        } catch (error) {
+            getLogger().debug('Unable to parse response chunk for request inspection', error);
+        }
+    }
+
+    private readUsage(): CompletionUsage | undefined {
+        if (this.assembler) {
+            return this.assembler.getUsage();
+        }
+        try {
+            return (JSON.parse(this.responseText) as ChatCompletionResponse).usage;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private getResponseBody(): string | undefined {
+        if (this.assembler) {
+            return JSON.stringify(this.assembler.toCompletion());
+        }
+        return this.responseText ? truncate(this.responseText) : undefined;
+    }
+}
+
+export class RequestTracker implements vscode.Disposable {
+    private static readonly MAX_RECORDS = 200;
+
+    private readonly captures: RequestCapture[] = [];
+    private readonly changeListeners = new Set<() => void>();
+    private readonly completeListeners = new Set<(record: RequestRecord) => void>();
+
+    begin(method: string, path: string): RequestCapture {
+        const capture = new RequestCapture(method, path, completed => {
+            this.notifyChange();
+            const record = completed.toRecord(true);
+            for (const listener of this.completeListeners) {
+                listener(record);
+            }
+        });
+
+        this.captures.push(capture);
+        if (this.captures.length > RequestTracker.MAX_RECORDS) {
+            this.captures.shift();
+        }
+        this.notifyChange();
+
+        return capture;
+    }
+
+    getRecords(): RequestRecord[] {
+        return this.captures.map(capture => capture.toRecord()).reverse();
+    }
+
+    getRecord(id: string): RequestRecord | undefined {
+        return this.captures.find(capture => capture.id === id)?.toRecord(true);
+    }
+
+    clear(): void {
+        this.captures.length = 0;
+        this.notifyChange();
+    }
+
+    onDidChange(listener: () => void): vscode.Disposable {
+        this.changeListeners.add(listener);
+        return new vscode.Disposable(() => {
+            this.changeListeners.delete(listener);
+        });
+    }
+
+    onDidCompleteRequest(listener: (record: RequestRecord) => void): vscode.Disposable {
+        this.completeListeners.add(listener);
+        return new vscode.Disposable(() => {
+            this.completeListeners.delete(listener);
+        });
+    }
+
+    dispose(): void {
+        this.changeListeners.clear();
+        this.completeListeners.clear();
+    }
+
+    private notifyChange(): void {
+        for (const listener of this.changeListeners) {
+            listener();
+        }
+    }
+}
@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Readable, Transform, TransformCallback } from 'stream';
+import { IConfigurationManager, UpstreamProvider } from '../types';
+import { HttpResponse } from '../utils/httpClient';
+import { getLogger } from '../utils/logger';
+
+interface CacheEntry {
+    readonly contentType: string;
+    readonly body: string;
+    readonly durationMs: number;
+    readonly createdAt: number;
+}
+
+export interface ResponseCacheStats {
+    readonly entries: number;
+    readonly hits: number;
+    readonly misses: number;
+}
+
+export class ResponseCache implements vscode.Disposable {
+    private static readonly DIRECTORY = 'response-cache';
+    private static readonly CACHEABLE_PATH = '/v1/chat/completions';
+    private static readonly MAX_ENTRY_BYTES = 2 * 1024 * 1024;
+    private static readonly MAX_REPLAY_DELAY_MS = 25;
+    private static readonly IGNORED_FIELDS = ['user', 'metadata'];
+
+    private readonly logger = getLogger();
+    private readonly cacheDirectory: string;
+    private readonly entries = new Map<string, CacheEntry>();
+    private hits = 0;
+    private misses = 0;
+
+    constructor(
+        storageUri: vscode.Uri,
+        private readonly configManager: IConfigurationManager
+    ) {
+        this.cacheDirectory = path.join(storageUri.fsPath, ResponseCache.DIRECTORY);
+        this.pruneDisk().catch(error => {
+            this.logger.warn('Failed to prune response cache', error);
+        });
+    }
+
+    getKey(
+        requestPath: string,
+        body: string | undefined,
+        provider: UpstreamProvider,
+        cacheHeader?: string
+    ): string | null {
+        const config = this.configManager.getConfiguration();
+        const header = cacheHeader?.trim().toLowerCase();
+        const bypass = header === 'false' || header === 'no-cache';
+        if (!config.responseCacheEnabled || bypass || !body || requestPath !== ResponseCache.CACHEABLE_PATH) {
+            return null;
+        }
+
+        let request: Record<string, unknown>;
+        try {
+            request = JSON.parse(body) as Record<string, unknown>;
+        } catch {
+            return null;
+        }
+
+        if (request.temperature !== 0 && header !== 'true') {
+            return null;
+        }
+
+        const normalized = Object.fromEntries(
+            Object.entries(request).filter(([key]) => !ResponseCache.IGNORED_FIELDS.includes(key))
+        );
+        return crypto.createHash('sha256')
+            .update(`${provider.name}\n${provider.url}\n${requestPath}\n${this.stableStringify(normalized)}`)
+            .digest('hex');
+    }
+
+    async lookup(key: string): Promise<HttpResponse | null> {
+        const entry = this.entries.get(key) ?? await this.readFromDisk(key);
+        if (!entry || this.isExpired(entry)) {
+            this.entries.delete(key);
+            this.misses++;
+            return null;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.hits++;
+        this.logger.debug(`Response cache hit ${key.slice(0, 12)}`);
+        return this.replay(entry);
+    }
+
+    record(key: string, response: HttpResponse): HttpResponse {
+        if (!response.ok || !response.body) {
+            return response;
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const startTime = Date.now();
+        const contentType = response.headers.get('content-type') ?? 'application/json';
+
+        const collect = (chunk: Buffer): void => {
+            size += chunk.length;
+            if (size <= ResponseCache.MAX_ENTRY_BYTES) {
+                chunks.push(chunk);
+            }
+        };
+        const save = (): void => {
+            if (size <= ResponseCache.MAX_ENTRY_BYTES) {
+                this.store(key, {
+                    contentType,
+                    body: Buffer.concat(chunks).toString('utf8'),
+                    durationMs: Date.now() - startTime,
+                    createdAt: Date.now()
+                });
+            }
+        };
+        const recorder = new Transform({
+            transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+                collect(chunk);
+                callback(null, chunk);
+            },
+            flush(callback: TransformCallback): void {
+                save();
+                callback();
+            }
+        });
+
+        response.body.on('error', error => recorder.destroy(error));
+        return { ...response, body: response.body.pipe(recorder) };
+    }
+
+    getStats(): ResponseCacheStats {
+        return { entries: this.entries.size, hits: this.hits, misses: this.misses };
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+        this.hits = 0;
+        this.misses = 0;
+        await fs.rm(this.cacheDirectory, { recursive: true, force: true });
+        this.logger.info('Response cache cleared');
+    }
+
+    dispose(): void {
+        this.entries.clear();
+    }
+
+    private store(key: string, entry: CacheEntry): void {
+        const config = this.configManager.getConfiguration();
+        this.entries.set(key, entry);
+        while (this.entries.size > config.responseCacheMaxEntries) {
+            this.entries.delete(this.entries.keys().next().value as string);
+        }
+
+        if (config.responseCacheDiskEnabled) {
+            this.writeToDisk(key, entry).catch(error => {
+                this.logger.warn('Failed to write response cache entry', error);
+            });
+        }
+    }
+
+    private replay(entry: CacheEntry): HttpResponse {
+        const isStream = entry.contentType.includes('text/event-stream');
+        const parts = isStream ? entry.body.split(/(?<=\n\n)/) : [entry.body];
+        const delayMs = isStream
+            ? Math.min(ResponseCache.MAX_REPLAY_DELAY_MS, entry.durationMs / Math.max(parts.length, 1))
+            : 0;
+
+        async function* emit(): AsyncGenerator<Buffer> {
+            for (const part of parts) {
+                yield Buffer.from(part);
+                if (delayMs > 0) {
+                    await new Promise(resolve => setTimeout(resolve, delayMs));
+                }
+            }
+        }
+
+        return {
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            headers: new Map([['content-type', entry.contentType], ['x-bridge-cache', 'hit']]),
+            body: Readable.from(emit(), { objectMode: false }),
+            json: async () => Promise.reject(new Error('Cannot parse JSON from stream')),
+            text: async () => Promise.reject(new Error('Cannot get text from stream'))
+        };
+    }
+
+    private isExpired(entry: CacheEntry): boolean {
+        return Date.now() - entry.createdAt > this.configManager.getConfiguration().responseCacheTtlMinutes * 60 * 1000;
+    }
+
+    private async readFromDisk(key: string): Promise<CacheEntry | undefined> {
+        if (!this.configManager.getConfiguration().responseCacheDiskEnabled) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(await fs.readFile(this.entryPath(key), 'utf8')) as CacheEntry;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async writeToDisk(key: string, entry: CacheEntry): Promise<void> {
+        await fs.mkdir(this.cacheDirectory, { recursive: true });
+        await fs.writeFile(this.entryPath(key), JSON.stringify(entry), 'utf8');
+    }
+
+    private async pruneDisk(): Promise<void> {
+        let files: string[];
+        try {
+            files = await fs.readdir(this.cacheDirectory);
+        } catch {
+            return;
+        }
+
+        const maxAgeMs = this.configManager.getConfiguration().responseCacheTtlMinutes * 60 * 1000;
+        for (const file of files) {
+            const filePath = path.join(this.cacheDirectory, file);
+            const { mtimeMs } = await fs.stat(filePath);
+            if (Date.now() - mtimeMs > maxAgeMs) {
+                await fs.rm(filePath, { force: true });
+            }
+        }
+    }
+
+    private entryPath(key: string): string {
+        return path.join(this.cacheDirectory, `${key}.json`);
+    }
+
+    private stableStringify(value: unknown): string {
+        if (Array.isArray(value)) {
+            return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+        }
+        if (value && typeof value === 'object') {
+            const entries = Object.entries(value as Record<string, unknown>)
+                .filter(([, item]) => item !== undefined)
+                .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+                .map(([key, item]) => `${JSON.stringify(key)}:${this.stableStringify(item)}`);
+            return `{${entries.join(',')}}`;
+        }
+        return JSON.stringify(value);
+    }
+}
@@ -0,0 +1,458 @@
+import * as crypto from 'crypto';
+import { formatSseEvent } from '../utils/sse';
+import {
+    ChatCompletionChunk,
+    ChatCompletionResponse,
+    ChatContentPart,
+    ChatMessage,
+    ChatStreamTranslator,
+    CompletionUsage,
+    ToolCall
+} from '../types';
+
+type ResponsesContentPart =
+    | { readonly type: 'input_text' | 'output_text'; readonly text: string }
+    | { readonly type: 'input_image'; readonly image_url?: string; readonly detail?: string };
+
+type ResponsesInputItem =
+    | {
+        readonly type?: 'message';
+        readonly role: 'user' | 'assistant' | 'system' | 'developer';
+        readonly content: string | ReadonlyArray<ResponsesContentPart>;
+    }
+    | { readonly type: 'function_call'; readonly call_id: string; readonly name: string; readonly arguments: string }
+    | { readonly type: 'function_call_output'; readonly call_id: string; readonly output: string }
+    | { readonly type: 'reasoning' };
+
+interface ResponsesFunctionTool {
+    readonly type: 'function';
+    readonly name: string;
+    readonly description?: string;
+    readonly parameters?: unknown;
+    readonly strict?: boolean;
+}
+
+export interface ResponsesRequest {
+    readonly model: string;
+    readonly input: string | ReadonlyArray<ResponsesInputItem>;
+    readonly instructions?: string;
+    readonly tools?: ReadonlyArray<ResponsesFunctionTool | { readonly type: string }>;
+    readonly tool_choice?: string | { readonly type: 'function'; readonly name: string };
+    readonly temperature?: number;
+    readonly top_p?: number;
+    readonly max_output_tokens?: number;
+    readonly parallel_tool_calls?: boolean;
+    readonly previous_response_id?: string;
+    readonly text?: { readonly format?: { readonly type: string; readonly name?: string; readonly schema?: unknown } };
+    readonly stream?: boolean;
+}
+
+type ResponsesOutputItem =
+    | {
+        readonly type: 'message';
+        readonly id: string;
+        readonly status: string;
+        readonly role: 'assistant';
+        readonly content: ReadonlyArray<{ readonly type: 'output_text'; readonly text: string; readonly annotations: [] }>;
+    }
+    | {
+        readonly type: 'function_call';
+        readonly id: string;
+        readonly call_id: string;
+        readonly name: string;
+        readonly arguments: string;
+        readonly status: string;
+    };
+
+function createId(prefix: string): string {
+    return `${prefix}_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+export function validateResponsesRequest(request: ResponsesRequest): string | null {
+    if (!request.model) {
+        return 'Missing required parameter: \'model\'.';
+    }
+    if (request.input === undefined || request.input === null || (Array.isArray(request.input) && request.input.length === 0)) {
+        return 'Missing required parameter: \'input\'.';
+    }
+    if (request.previous_response_id) {
+        return 'previous_response_id is not supported by the bridge. Send the full conversation in \'input\' instead.';
+    }
+    return null;
+}
+
+export function toChatCompletionRequest(request: ResponsesRequest, model: string): Record<string, unknown> {
+    const messages: ChatMessage[] = [];
+
+    if (request.instructions) {
+        messages.push({ role: 'system', content: request.instructions });
+    }
+
+    const items = typeof request.input === 'string'
+        ? [{ role: 'user' as const, content: request.input }]
+        : request.input;
+
+    for (const item of items) {
+        appendInputItem(messages, item);
+    }
+
+    const body: Record<string, unknown> = {
+        model,
+        messages,
+        temperature: request.temperature,
+        top_p: request.top_p,
+        max_tokens: request.max_output_tokens,
+        stream: request.stream ?? false
+    };
+
+    if (request.stream) {
+        body.stream_options = { include_usage: true };
+    }
+
+    const functionTools = (request.tools ?? []).filter((tool): tool is ResponsesFunctionTool => tool.type === 'function');
+    if (functionTools.length > 0) {
+        body.tools = functionTools.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters, strict: tool.strict }
+        }));
+        body.tool_choice = typeof request.tool_choice === 'object'
+            ? { type: 'function', function: { name: request.tool_choice.name } }
+            : request.tool_choice;
+        body.parallel_tool_calls = request.parallel_tool_calls;
+    }
+
+    const format = request.text?.format;
+    if (format?.type === 'json_schema') {
+        body.response_format = { type: 'json_schema', json_schema: { name: format.name ?? 'response', schema: format.schema } };
+    } else if (format?.type === 'json_object') {
+        body.response_format = { type: 'json_object' };
+    }
+
+    return body;
+}
+
+function appendInputItem(messages: ChatMessage[], item: ResponsesInputItem): void {
+    if (item.type === 'reasoning') {
+        return;
+    }
+
+    if (item.type === 'function_call') {
+        const toolCall: ToolCall = {
+            id: item.call_id,
+            type: 'function',
+            function: { name: item.name, arguments: item.arguments }
+        };
+        const previous = messages[messages.length - 1];
+        if (previous?.role === 'assistant' && previous.tool_calls) {
+            messages[messages.length - 1] = { ...previous, tool_calls: [...previous.tool_calls, toolCall] };
+        } else {
+            messages.push({ role: 'assistant', content: null, tool_calls: [toolCall] });
+        }
+        return;
+    }
+
+    if (item.type === 'function_call_output') {
+        messages.push({ role: 'tool', tool_call_id: item.call_id, content: item.output });
+        return;
+    }
+
+    const role = item.role === 'developer' ? 'system' : item.role;
+    if (typeof item.content === 'string') {
+        messages.push({ role, content: item.content });
+        return;
+    }
+
+    const parts: ChatContentPart[] = item.content.map(part => part.type === 'input_image'
+        ? { type: 'image_url', image_url: { url: part.image_url ?? '', detail: part.detail } }
+        : { type: 'text', text: part.text });
+    const textOnly = parts.every(part => part.type === 'text');
+    messages.push({
+        role,
+        content: textOnly ? parts.map(part => part.type === 'text' ? part.text : '').join('') : parts
+    });
+}
+
+function toResponsesUsage(usage: CompletionUsage | null | undefined): Record<string, number> {
+    const inputTokens = usage?.prompt_tokens ?? 0;
+    const outputTokens = usage?.completion_tokens ?? 0;
+    return {
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        total_tokens: usage?.total_tokens ?? inputTokens + outputTokens
+    };
+}
+
+function buildResponse(
+    id: string,
+    createdAt: number,
+    request: ResponsesRequest,
+    status: 'in_progress' | 'completed' | 'incomplete' | 'failed',
+    output: ReadonlyArray<ResponsesOutputItem>,
+    usage: Record<string, number> | null,
+    error: { code: string; message: string } | null = null
+): Record<string, unknown> {
+    return {
+        id,
+        object: 'response',
+        created_at: createdAt,
+        status,
+        error,
+        incomplete_details: status === 'incomplete' ? { reason: 'max_output_tokens' } : null,
+        instructions: request.instructions ?? null,
+        max_output_tokens: request.max_output_tokens ?? null,
+        model: request.model,
+        output,
+        parallel_tool_calls: request.parallel_tool_calls ?? true,
+        temperature: request.temperature ?? null,
+        tool_choice: request.tool_choice ?? 'auto',
+        tools: request.tools ?? [],
+        top_p: request.top_p ?? null,
+        usage
+    };
+}
+
+export function fromChatCompletion(completion: ChatCompletionResponse, request: ResponsesRequest): Record<string, unknown> {
+    const choice = completion.choices?.[0];
+    const output: ResponsesOutputItem[] = [];
+
+    if (choice?.message?.content) {
+        output.push({
+            type: 'message',
+            id: createId('msg'),
+            status: 'completed',
+            role: 'assistant',
+            content: [{ type: 'output_text', text: choice.message.content, annotations: [] }]
+        });
+    }
+
+    for (const toolCall of choice?.message?.tool_calls ?? []) {
+        output.push({
+            type: 'function_call',
+            id: createId('fc'),
+            call_id: toolCall.id ?? createId('call'),
+            name: toolCall.function?.name ?? '',
+            arguments: toolCall.function?.arguments ?? '',
+            status: 'completed'
+        });
+    }
+
+    const status = choice?.finish_reason === 'length' ? 'incomplete' : 'completed';
+    return buildResponse(createId('resp'), Math.floor(Date.now() / 1000), request, status, output, toResponsesUsage(completion.usage));
+}
+
+export function formatResponsesError(statusCode: number, message: string): Record<string, unknown> {
+    return {
+        error: {
+            message,
+            type: statusCode >= 500 ? 'server_error' : 'invalid_request_error',
+            param: null,
+            code: null
+        }
+    };
+}
+
+interface OpenOutputItem {
+    readonly outputIndex: number;
+    readonly itemId: string;
+    readonly kind: 'message' | 'function_call';
+    readonly callId: string;
+    readonly name: string;
+    text: string;
+}
+
+export class ResponsesStreamTranslator implements ChatStreamTranslator {
+    private readonly responseId = createId('resp');
+    private readonly createdAt = Math.floor(Date.now() / 1000);
+    private readonly output: ResponsesOutputItem[] = [];
+    private readonly toolItems = new Map<number, OpenOutputItem>();
+    private openItem: OpenOutputItem | null = null;
+    private sequenceNumber = 0;
+    private finishReason: string | null = null;
+    private usage: CompletionUsage | null = null;
+
+    constructor(private readonly request: ResponsesRequest) {}
+
+    start(): string {
+        const response = buildResponse(this.responseId, this.createdAt, this.request, 'in_progress', [], null);
+        return this.event('response.created', { response }) + this.event('response.in_progress', { response });
+    }
+
+    translate(chunk: ChatCompletionChunk): string {
+        let output = '';
+
+        if (chunk.usage) {
+            this.usage = chunk.usage;
+        }
+
+        const choice = chunk.choices?.[0];
+        if (!choice) {
+            return output;
+        }
+
+        if (choice.delta?.content) {
+            if (this.openItem?.kind !== 'message') {
+                output += this.closeItem();
+                output += this.openMessageItem();
+            }
+            const item = this.openItem as OpenOutputItem;
+            item.text += choice.delta.content;
+            output += this.event('response.output_text.delta', {
+                item_id: item.itemId,
+                output_index: item.outputIndex,
+                content_index: 0,
+                delta: choice.delta.content
+            });
+        }
+
+        for (const toolCall of choice.delta?.tool_calls ?? []) {
+            const toolIndex = toolCall.index ?? 0;
+            let item = this.toolItems.get(toolIndex);
+
+            if (!item) {
+                output += this.closeItem();
+                item = {
+                    outputIndex: this.output.length,
+                    itemId: createId('fc'),
+                    kind: 'function_call',
+                    callId: toolCall.id ?? createId('call'),
+                    name: toolCall.function?.name ?? '',
+                    text: ''
+                };
+                this.toolItems.set(toolIndex, item);
+                this.openItem = item;
+                this.output.push(this.toOutputItem(item, 'in_progress'));
+                output += this.event('response.output_item.added', {
+                    output_index: item.outputIndex,
+                    item: this.output[item.outputIndex]
+                });
+            }
+
+            if (toolCall.function?.arguments && item === this.openItem) {
+                item.text += toolCall.function.arguments;
+                output += this.event('response.function_call_arguments.delta', {
+                    item_id: item.itemId,
+                    output_index: item.outputIndex,
+                    delta: toolCall.function.arguments
+                });
+            }
+        }
+
+        if (choice.finish_reason) {
+            this.finishReason = choice.finish_reason;
+        }
+
+        return output;
+    }
+
+    finish(): string {
+        const output = this.closeItem();
+        const status = this.finishReason === 'length' ? 'incomplete' : 'completed';
+        const response = buildResponse(
+            this.responseId,
+            this.createdAt,
+            this.request,
+            status,
+            this.output,
+            toResponsesUsage(this.usage)
+        );
+        return output + this.event(status === 'completed' ? 'response.completed' : 'response.incomplete', { response });
+    }
+
+    error(message: string): string {
+        const response = buildResponse(
+            this.responseId,
+            this.createdAt,
+            this.request,
+            'failed',
+            this.output,
+            toResponsesUsage(this.usage),
+            { code: 'server_error', message }
+        );
+        return this.event('response.failed', { response });
+    }
+
+    private openMessageItem(): string {
+        const item: OpenOutputItem = {
+            outputIndex: this.output.length,
+            itemId: createId('msg'),
+            kind: 'message',
+            callId: '',
+            name: '',
+            text: ''
+        };
+        this.openItem = item;
+        this.output.push(this.toOutputItem(item, 'in_progress'));
+
+        return this.event('response.output_item.added', {
+            output_index: item.outputIndex,
+            item: { ...this.output[item.outputIndex], content: [] }
+        }) + this.event('response.content_part.added', {
+            item_id: item.itemId,
+            output_index: item.outputIndex,
+            content_index: 0,
+            part: { type: 'output_text', text: '', annotations: [] }
+        });
+    }
+
+    private closeItem(): string {
+        const item = this.openItem;
+        if (!item) {
+            return '';
+        }
+        this.openItem = null;
+
+        const completedItem = this.toOutputItem(item, 'completed');
+        this.output[item.outputIndex] = completedItem;
+
+        let output = '';
+        if (item.kind === 'message') {
+            output += this.event('response.output_text.done', {
+                item_id: item.itemId,
+                output_index: item.outputIndex,
+                content_index: 0,
+                text: item.text
+            });
+            output += this.event('response.content_part.done', {
+                item_id: item.itemId,
+                output_index: item.outputIndex,
+                content_index: 0,
+                part: { type: 'output_text', text: item.text, annotations: [] }
+            });
+        } else {
+            output += this.event('response.function_call_arguments.done', {
+                item_id: item.itemId,
+                output_index: item.outputIndex,
+                arguments: item.text
+            });
+        }
+
+        return output + this.event('response.output_item.done', {
+            output_index: item.outputIndex,
+            item: completedItem
+        });
+    }
+
+    private toOutputItem(item: OpenOutputItem, status: string): ResponsesOutputItem {
+        if (item.kind === 'message') {
+            return {
+                type: 'message',
+                id: item.itemId,
+                status,
+                role: 'assistant',
+                content: [{ type: 'output_text', text: item.text, annotations: [] }]
+            };
+        }
+        return {
+            type: 'function_call',
+            id: item.itemId,
+            call_id: item.callId,
+            name: item.name,
+            arguments: item.text,
+            status
+        };
+    }
+
+    private event(type: string, payload: Record<string, unknown>): string {
+        return formatSseEvent({ type, sequence_number: this.sequenceNumber++, ...payload }, type);
+    }
+}
@@ -0,0 +1,53 @@
+import { IConfigurationManager, SamplingProfile } from '../types';
+import { getLogger } from '../utils/logger';
+import { matchesWildcard } from '../utils/patterns';
+
+const SAMPLING_KEYS = ['temperature', 'top_p', 'top_k', 'min_p', 'repeat_penalty', 'stop'] as const;
+
+export class SamplingProfileResolver {
+    private readonly logger = getLogger();
+
+    constructor(private readonly configManager: IConfigurationManager) {}
+
+    apply(request: Record<string, unknown>): Record<string, unknown> {
+        const profile = this.findProfile(String(request.model ?? ''));
+        if (!profile) {
+            return request;
+        }
+
+        const applied: Record<string, unknown> = { ...request };
+        const changed: string[] = [];
+
+        for (const key of SAMPLING_KEYS) {
+            const value = profile[key];
+            const isMissing = applied[key] === undefined || applied[key] === null;
+            if (value !== undefined && (profile.mode === 'override' || isMissing)) {
+                applied[key] = value;
+                changed.push(key);
+            }
+        }
+
+        if (profile.max_tokens !== undefined) {
+            const limitKey = applied.max_tokens === undefined && typeof applied.max_completion_tokens === 'number'
+                ? 'max_completion_tokens'
+                : 'max_tokens';
+            const requested = applied[limitKey];
+            if (typeof requested !== 'number' || requested > profile.max_tokens) {
+                applied[limitKey] = profile.max_tokens;
+                changed.push(limitKey);
+            }
+        }
+
+        if (changed.length === 0) {
+            return request;
+        }
+
+        this.logger.debug(`Applied sampling profile "${profile.model}" (${profile.mode}) to ${changed.join(', ')}`);
+        return applied;
+    }
+
+    private findProfile(model: string): SamplingProfile | undefined {
+        return this.configManager.getConfiguration().samplingProfiles
+            .find(profile => matchesWildcard(profile.model, model));
+    }
+}
@@ -3,40 +3,88 @@ import {
     IConfigurationManager,
     IModelProvider,
     ITunnelManager,
-    BridgeConfiguration
+    BridgeConfiguration,
+    BridgeError,
+    ConfigurationKey,
+    TunnelReconnectEvent,
+    TunnelStatus
 } from '../types';
 import { ConfigurationManager } from './ConfigurationManager';
 import { LLMModelProvider } from './ModelProvider';
 import { createTunnelManager } from './TunnelManager';
 import { StatusBarManager } from './StatusBarManager';
+import { RequestTracker } from './RequestTracker';
+import { RequestInspector } from './RequestInspector';
+import { RequestHistory } from './RequestHistory';
+import { UsageMetrics } from './UsageMetrics';
+import { ResponseCache } from './ResponseCache';
 import { getLogger, disposeLogger } from '../utils/logger';
 
 export class ServiceManager implements vscode.Disposable {
+    private static readonly RESTART_DELAY = 250;
+    private static readonly API_KEY_NOTICE_KEY = 'apiKeyNoticeShown';
+    private static readonly RESTART_KEYS: ReadonlySet<ConfigurationKey> = new Set<ConfigurationKey>([
+        'providerUrl', 'proxyPort', 'autoSelectProxyPort', 'listenHost',
+        'ngrokAuthToken', 'ngrokDomain', 'ngrokRegion', 'ngrokBasicAuthUsername', 'ngrokBasicAuthPassword',
+        'ngrokOAuthProvider', 'ngrokOidcIssuerUrl', 'ngrokOidcClientId', 'ngrokOidcClientSecret',
+        'ngrokAllowedEmails', 'ngrokAllowedDomains', 'ngrokIpAllowCidrs', 'ngrokIpDenyCidrs', 'ngrokTrafficPolicy',
+        'tunnelProvider', 'cloudflaredPath', 'sshTunnelHost', 'sshTunnelRemotePort', 'sshTunnelPublicUrl',
+        'sshTunnelArgs', 'tunnelCommand', 'tunnelCommandUrlPattern', 'tunnelWatchdogIntervalSeconds'
+    ]);
+
     private readonly logger = getLogger();
     private readonly disposables: vscode.Disposable[] = [];
+    private readonly pendingRestartKeys = new Set<ConfigurationKey>();
+    private restartTimeout: NodeJS.Timeout | null = null;
+    private pendingOperations = 0;
 
     public readonly configManager: IConfigurationManager;
     public readonly modelProvider: IModelProvider;
     public readonly tunnelManager: ITunnelManager;
     public readonly statusBarManager: StatusBarManager;
+    public readonly requestTracker: RequestTracker;
+    private readonly requestInspector: RequestInspector;
+    private readonly requestHistory: RequestHistory;
+    private readonly usageMetrics: UsageMetrics;
+    private readonly responseCache: ResponseCache;
+    private readonly globalState: vscode.Memento;
 
     constructor(context: vscode.ExtensionContext) {
+        this.globalState = context.globalState;
         this.configManager = new ConfigurationManager(context.secrets);
         this.modelProvider = new LLMModelProvider(this.configManager);
-        this.tunnelManager = createTunnelManager(this.configManager, this.modelProvider);
+        this.requestTracker = new RequestTracker();
+        this.requestInspector = new RequestInspector(this.requestTracker);
+        this.requestHistory = new RequestHistory(context.globalStorageUri, this.configManager, this.requestTracker);
+        this.usageMetrics = new UsageMetrics(context.globalState, this.requestTracker);
+        this.responseCache = new ResponseCache(context.globalStorageUri, this.configManager);
+        this.tunnelManager = createTunnelManager(
+            this.configManager,
+            this.modelProvider,
+            this.requestTracker,
+            this.responseCache
+        );
         this.statusBarManager = new StatusBarManager(
             this.configManager,
             this.modelProvider,
-            this.tunnelManager
+            this.tunnelManager,
+            this.usageMetrics,
+            this.responseCache
         );
 
         this.disposables.push(
             this.tunnelManager,
             this.statusBarManager,
+            this.requestInspector,
+            this.requestHistory,
+            this.usageMetrics,
+            this.responseCache,
+            this.requestTracker,
             this.configManager as vscode.Disposable
         );
 
         this.setupConfigurationHandling();
+        this.setupTunnelNotifications();
         this.initializeStatusBar();
         this.handleAutoStart();
     }
@@ -46,7 +94,8 @@ export class ServiceManager implements vscode.Disposable {
     }
 
     async startBridge(): Promise<void> {
-        await this.tunnelManager.start();
+        await this.runReportedOperation(() => this.tunnelManager.start());
+        this.showApiKeyNotice();
     }
 
     async stopBridge(): Promise<void> {
@@ -54,7 +103,7 @@ export class ServiceManager implements vscode.Disposable {
     }
 
     async restartBridge(): Promise<void> {
-        await this.tunnelManager.restart();
+        await this.runReportedOperation(() => this.tunnelManager.restart());
     }
 
     async handleConfigurationChange(): Promise<void> {
@@ -63,7 +112,7 @@ export class ServiceManager implements vscode.Disposable {
         if (status.isRunning) {
             this.logger.info('Gracefully restarting bridge due to configuration change');
             try {
-                await this.tunnelManager.restart();
+                await this.runReportedOperation(() => this.tunnelManager.restart());
                 this.logger.info('Bridge restarted successfully after configuration change');
             } catch (error) {
                 this.logger.error('Failed to restart bridge after configuration change', error);
@@ -82,11 +131,32 @@ export class ServiceManager implements vscode.Disposable {
         await this.statusBarManager.showQuickMenu();
     }
 
+    showRequestInspector(): void {
+        this.requestInspector.show();
+    }
+
+    async exportHistory(): Promise<void> {
+        await this.requestHistory.exportToFile();
+    }
+
+    async clearHistory(): Promise<void> {
+        await this.requestHistory.clear();
+    }
+
+    async clearResponseCache(): Promise<void> {
+        await this.responseCache.clear();
+    }
+
     getBridgeStatus(): { isRunning: boolean; url?: string; error?: string } {
         return this.tunnelManager.getStatus();
     }
 
     dispose(): void {
+        if (this.restartTimeout) {
+            clearTimeout(this.restartTimeout);
+            this.restartTimeout = null;
+        }
+
         for (const disposable of this.disposables) {
             try {
                 disposable.dispose();
@@ -100,12 +170,128 @@ export class ServiceManager implements vscode.Disposable {
     }
 
     private setupConfigurationHandling(): void {
-        const configDisposable = this.configManager.onConfigurationChanged((config: BridgeConfiguration) => {
-            this.statusBarManager.updateVisibility(config.showStatusBar);
+        const configDisposable = this.configManager.onDidChangeConfigurationKey(event => {
+            if (event.key === 'showStatusBar') {
+                this.statusBarManager.updateVisibility(event.newValue as boolean);
+            } else if (ServiceManager.RESTART_KEYS.has(event.key)) {
+                this.scheduleRestart(event.key);
+            }
         });
         this.disposables.push(configDisposable);
     }
 
+    private scheduleRestart(key: ConfigurationKey): void {
+        this.pendingRestartKeys.add(key);
+        if (this.restartTimeout) {
+            clearTimeout(this.restartTimeout);
+        }
+        this.restartTimeout = setTimeout(() => {
+            this.restartTimeout = null;
+            this.restartForConfigurationChange();
+        }, ServiceManager.RESTART_DELAY);
+    }
+
+    private async restartForConfigurationChange(): Promise<void> {
+        const keys = [...this.pendingRestartKeys];
+        this.pendingRestartKeys.clear();
+
+        if (!this.tunnelManager.getStatus().isRunning) {
+            this.logger.debug(`Configuration changed (${keys.join(', ')}) but bridge is not running, no restart needed`);
+            return;
+        }
+
+        this.logger.info(`Configuration change to ${keys.join(', ')} affects the bridge connection`);
+        try {
+            await this.handleConfigurationChange();
+            vscode.window.showInformationMessage('Bridge restarted successfully due to configuration change');
+        } catch (error) {
+            vscode.window.showWarningMessage(
+                `Configuration updated but bridge restart failed: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+
+    private async runReportedOperation(operation: () => Promise<void>): Promise<void> {
+        this.pendingOperations++;
+        try {
+            await operation();
+        } finally {
+            this.pendingOperations--;
+        }
+    }
+
+    private setupTunnelNotifications(): void {
+        this.disposables.push(
+            this.tunnelManager.onDidReconnect(event => this.notifyReconnect(event)),
+            this.tunnelManager.onDidChangeStatus(event => {
+                if (event.state === 'failed' && event.previousState !== 'failed' && this.pendingOperations === 0) {
+                    this.notifyFailure(event.newStatus);
+                }
+            })
+        );
+    }
+
+    private notifyFailure(status: TunnelStatus): void {
+        vscode.window.showErrorMessage(
+            `Cursor Provider Bridge stopped: ${status.error ?? 'the tunnel failed'}`,
+            'Restart Bridge'
+        ).then(selection => {
+            if (selection === 'Restart Bridge') {
+                this.startBridge().catch(error => {
+                    this.logger.error('Restart after tunnel failure failed', error);
+                    vscode.window.showErrorMessage(
+                        `Failed to restart Cursor Provider Bridge: ${error instanceof Error ? error.message : String(error)}`
+                    );
+                });
+            }
+        });
+    }
+
+    private notifyReconnect(event: TunnelReconnectEvent): void {
+        if (!event.succeeded) {
+            return;
+        }
+
+        if (!event.url || event.url === event.previousUrl) {
+            vscode.window.showInformationMessage('Tunnel connection restored');
+            return;
+        }
+
+        vscode.window.showWarningMessage(
+            `Tunnel reconnected with a new URL: ${event.url}. Update the base URL in Cursor.`,
+            'Copy URL'
+        ).then(selection => {
+            if (selection === 'Copy URL') {
+                vscode.env.clipboard.writeText(event.url!);
+            }
+        });
+    }
+
+    private showApiKeyNotice(): void {
+        if (!this.configManager.getConfiguration().requireApiKey ||
+            this.globalState.get(ServiceManager.API_KEY_NOTICE_KEY, false)) {
+            return;
+        }
+
+        Promise.resolve(this.globalState.update(ServiceManager.API_KEY_NOTICE_KEY, true)).catch(error => {
+            this.logger.warn('Failed to remember the API key notice', error);
+        });
+        vscode.window.showInformationMessage(
+            'The bridge now requires an API key. Enter it as the OpenAI API key in Cursor.',
+            'Copy API Key'
+        ).then(selection => {
+            if (selection !== 'Copy API Key') {
+                return;
+            }
+            this.configManager.ensureBridgeApiKey()
+                .then(apiKey => vscode.env.clipboard.writeText(apiKey))
+                .then(() => vscode.window.showInformationMessage('Bridge API key copied to clipboard'))
+                .catch(error => {
+                    this.logger.error('Failed to copy the bridge API key', error);
+                });
+        });
+    }
+
     private initializeStatusBar(): void {
         const config = this.configManager.getConfiguration();
         this.statusBarManager.updateVisibility(config.showStatusBar);
@@ -126,7 +312,7 @@ export class ServiceManager implements vscode.Disposable {
             return;
         }
 
-        if (!config.ngrokAuthToken) {
+        if (config.tunnelProvider === 'ngrok' && !config.ngrokAuthToken) {
             this.showAutoStartConfigError();
             return;
         }
@@ -157,16 +343,20 @@ export class ServiceManager implements vscode.Disposable {
         this.logger.error('Auto-start failed', error);
         const errorMessage = error instanceof Error ? error.message : String(error);
         
-        const isPortError = errorMessage.includes('Port 8082 is already in use');
-        const message = isPortError 
-            ? 'Auto-start failed: Port 8082 is already in use. Stop other applications using this port or disable auto-start.'
-            : `Auto-start failed: ${errorMessage}`;
+        const isPortError = this.isPortConflict(error);
+        const message = `Auto-start failed: ${errorMessage}`;
 
-        const actions = isPortError ? ['Disable Auto-start', 'Try Again'] : ['Retry'];
+        const actions = isPortError ? ['Use Automatic Port', 'Disable Auto-start', 'Try Again'] : ['Retry'];
 
         vscode.window.showWarningMessage(message, ...actions).then(selection => {
             if (selection === 'Disable Auto-start') {
                 vscode.workspace.getConfiguration().update('cursor-provider-bridge.autoStart', false, true);
+            } else if (selection === 'Use Automatic Port') {
+                this.configManager.updateConfiguration('autoSelectProxyPort', true)
+                    .then(() => this.startBridge())
+                    .catch(retryError => {
+                        this.logger.error('Retry with automatic port failed', retryError);
+                    });
             } else if (selection === 'Try Again' || selection === 'Retry') {
                 this.startBridge().catch(retryError => {
                     this.logger.error('Retry failed', retryError);
@@ -175,6 +365,16 @@ export class ServiceManager implements vscode.Disposable {
         });
     }
 
+    private isPortConflict(error: unknown): boolean {
+        if (!(error instanceof BridgeError)) {
+            return false;
+        }
+        if (error.code === 'PORT_IN_USE') {
+            return true;
+        }
+        return error.cause instanceof BridgeError && error.cause.code === 'PORT_IN_USE';
+    }
+
     private showSecretStorageError(): void {
         vscode.window.showErrorMessage(
             'SecretStorage is unavailable, which is required for secure authentication token storage. The extension cannot function without secure token storage.',
@@ -5,26 +5,40 @@ import {
     ITunnelManager,
     TunnelStatus,
     BridgeConfiguration,
-    QuickPickOption
+    QuickPickOption,
+    ModelUsageSummary
 } from '../types';
 import { getLogger } from '../utils/logger';
+import { UsageMetrics } from './UsageMetrics';
+import { ResponseCache } from './ResponseCache';
+import { describeNgrokProtections } from './TunnelProviders';
 
 export class StatusBarManager implements vscode.Disposable {
+    private static readonly USAGE_REFRESH_INTERVAL = 10 * 60 * 1000;
+
     private readonly statusBarItem: vscode.StatusBarItem;
     private readonly logger = getLogger();
-    private updateInterval: NodeJS.Timeout | null = null;
     private updateTimeout: NodeJS.Timeout | null = null;
+    private readonly subscriptions: { dispose(): void }[];
 
     constructor(
         private readonly configManager: IConfigurationManager,
         private readonly modelProvider: IModelProvider,
-        private readonly tunnelManager: ITunnelManager
+        private readonly tunnelManager: ITunnelManager,
+        private readonly usageMetrics: UsageMetrics,
+        private readonly responseCache: ResponseCache
     ) {
         this.statusBarItem = vscode.window.createStatusBarItem(
             vscode.StatusBarAlignment.Right,
             100
         );
 
+        this.subscriptions = [
+            this.usageMetrics.onDidChange(() => this.scheduleUpdate()),
+            this.tunnelManager.onDidChangeStatus(() => this.scheduleUpdate()),
+            this.configManager.onDidChangeConfigurationKey(() => this.scheduleUpdate()),
+            this.createUsageRefreshTimer()
+        ];
 
         this.initialize();
         this.logger.debug('Status bar manager initialized');
@@ -54,7 +68,7 @@ export class StatusBarManager implements vscode.Disposable {
     }
 
     dispose(): void {
-        this.stopPeriodicUpdate();
+        this.subscriptions.forEach(subscription => subscription.dispose());
         if (this.updateTimeout) {
             clearTimeout(this.updateTimeout);
             this.updateTimeout = null;
@@ -63,12 +77,23 @@ export class StatusBarManager implements vscode.Disposable {
         this.logger.debug('Status bar manager disposed');
     }
 
+    private createUsageRefreshTimer(): { dispose(): void } {
+        const timer = setInterval(() => this.scheduleUpdate(), StatusBarManager.USAGE_REFRESH_INTERVAL);
+        return { dispose: () => clearInterval(timer) };
+    }
+
     private initialize(): void {
         this.setupStatusBar();
-        this.startPeriodicUpdate();
         
         const config = this.configManager.getConfiguration();
         this.updateVisibility(config.showStatusBar);
+
+        this.configManager.waitForInitialization().then(() => {
+            this.updateVisibility(this.configManager.getConfiguration().showStatusBar);
+            this.scheduleUpdate();
+        }).catch(error => {
+            this.logger.debug('Status bar kept default configuration after failed initialization', error);
+        });
     }
 
     private setupStatusBar(): void {
@@ -91,15 +116,68 @@ export class StatusBarManager implements vscode.Disposable {
     }
 
     private getStatusBarTooltip(status: TunnelStatus, config: BridgeConfiguration): string {
-        const statusEmoji = status.isRunning ? '✅' : '❌';
+        const statusEmoji = status.isReconnecting ? '🔄 Reconnecting' : status.isRunning ? '✅' : '❌';
         const baseInfo = `Status: ${statusEmoji}`;
         
         if (status.isRunning && status.url) {
-            return `${baseInfo}\nURL: ${status.url}\nClick for options`;
+            const portInfo = status.proxyPort ? `\nProxy Port: ${status.proxyPort}` : '';
+            const providerInfo = status.provider ? ` (${status.provider})` : '';
+            return `${baseInfo}\nURL: ${status.url}${providerInfo}${portInfo}${this.getProtectionInfo(status, config)}${this.getFailoverInfo(status)}${this.getUsageInfo()}\nClick for options`;
         } else {
             const errorInfo = status.error ? `\nError: ${status.error}` : '';
-            return `${baseInfo}${errorInfo}\nClick for options`;
+            const portInfo = config.autoSelectProxyPort ? `${config.proxyPort} (auto)` : `${config.proxyPort}`;
+            return `${baseInfo}${errorInfo}\nProxy Port: ${portInfo}${this.getUsageInfo()}\nClick for options`;
+        }
+    }
+
+    private getProtectionInfo(status: TunnelStatus, config: BridgeConfiguration): string {
+        if (status.provider !== 'ngrok') {
+            return '';
+        }
+
+        const protections = describeNgrokProtections(config);
+        return protections.length > 0
+            ? `\nEdge Protection: ${protections.join('; ')}`
+            : '\nEdge Protection: none';
+    }
+
+    private getUsageInfo(): string {
+        const summary = this.usageMetrics.getSummary();
+        if (summary.requests === 0) {
+            return '';
+        }
+        return `\nLast 24h: ${this.formatUsage(summary)}`;
+    }
+
+    private formatUsage(usage: Omit<ModelUsageSummary, 'model'>): string {
+        const parts = [
+            `${usage.requests} request${usage.requests === 1 ? '' : 's'}`,
+            `${this.formatTokenCount(usage.promptTokens + usage.completionTokens)} tokens`
+        ];
+        if (usage.averageTokensPerSecond !== undefined) {
+            parts.push(`${Math.round(usage.averageTokensPerSecond)} tok/s avg`);
+        }
+        return parts.join(', ');
+    }
+
+    private formatTokenCount(tokens: number): string {
+        if (tokens >= 1_000_000) {
+            return `${(tokens / 1_000_000).toFixed(1)}M`;
+        }
+        if (tokens >= 1_000) {
+            return `${(tokens / 1_000).toFixed(1)}K`;
         }
+        return String(tokens);
+    }
+
+    private getFailoverInfo(status: TunnelStatus): string {
+        const failover = status.lastFailover;
+        if (!failover) {
+            return '';
+        }
+
+        const time = new Date(failover.timestamp).toLocaleTimeString();
+        return `\nLast Failover: ${failover.fromProvider} → ${failover.toProvider} at ${time} (${failover.reason})`;
     }
 
     private setStatusBarStyling(status: TunnelStatus): void {
@@ -112,19 +190,6 @@ export class StatusBarManager implements vscode.Disposable {
         }
     }
 
-    private startPeriodicUpdate(): void {
-        this.updateInterval = setInterval(() => {
-            this.scheduleUpdate();
-        }, 5000);
-    }
-
-    private stopPeriodicUpdate(): void {
-        if (this.updateInterval) {
-            clearInterval(this.updateInterval);
-            this.updateInterval = null;
-        }
-    }
-
     private scheduleUpdate(): void {
         if (this.updateTimeout) {
             clearTimeout(this.updateTimeout);
@@ -140,8 +205,10 @@ export class StatusBarManager implements vscode.Disposable {
         if (!status.isRunning) {
             items.push({
                 label: 'Start Bridge',
-                description: 'Start an ngrok tunnel to your model provider',
-                detail: `Will tunnel to: ${config.providerUrl}`
+                description: config.tunnelProvider === 'none'
+                    ? 'Serve your model provider without a public tunnel'
+                    : `Expose your model provider through ${config.tunnelProvider}`,
+                detail: `Will tunnel to: ${config.providerUrl}${config.providers.length > 0 ? ` (+${config.providers.length} more)` : ''}`
             });
         }
 
@@ -151,7 +218,41 @@ export class StatusBarManager implements vscode.Disposable {
                 description: 'Copy the tunnel URL to clipboard'
             });
         }
+
+        if (config.requireApiKey) {
+            items.push({
+                label: 'Copy API Key',
+                description: 'Copy the bridge API key to clipboard',
+                detail: 'Use it as the OpenAI API key in Cursor settings'
+            });
+            items.push({
+                label: 'Rotate API Key',
+                description: 'Replace the bridge API key with a new one',
+                detail: 'Clients using the current key will be rejected'
+            });
+        }
         
+        items.push({
+            label: 'Request Inspector',
+            description: 'Inspect recent requests sent through the bridge'
+        });
+
+        const usage = this.usageMetrics.getSummary();
+        items.push({
+            label: 'Usage Statistics',
+            description: 'Show per-model request and token usage',
+            detail: usage.requests > 0 ? `Last 24h: ${this.formatUsage(usage)}` : 'No requests in the last 24 hours'
+        });
+
+        const cacheStats = this.responseCache.getStats();
+        if (config.responseCacheEnabled || cacheStats.entries > 0) {
+            items.push({
+                label: 'Clear Cache',
+                description: 'Remove all cached responses',
+                detail: `${cacheStats.entries} cached · ${cacheStats.hits} hits · ${cacheStats.misses} misses`
+            });
+        }
+
         items.push({
             label: 'Configure',
             description: 'Open extension settings',
@@ -161,7 +262,9 @@ export class StatusBarManager implements vscode.Disposable {
         if (status.isRunning) {
             items.push({
                 label: 'Stop Bridge',
-                description: 'Close the ngrok tunnel to your model provider',
+                description: status.provider === 'none'
+                    ? 'Stop serving your model provider'
+                    : `Close the ${status.provider ?? 'ngrok'} tunnel to your model provider`,
                 detail: `Currently running at: ${status.url}`
             });
         }
@@ -186,6 +289,21 @@ export class StatusBarManager implements vscode.Disposable {
                 case 'Copy Bridge URL':
                     await this.copyBridgeUrl();
                     break;
+                case 'Copy API Key':
+                    await this.copyApiKey();
+                    break;
+                case 'Rotate API Key':
+                    await this.rotateApiKey();
+                    break;
+                case 'Request Inspector':
+                    await vscode.commands.executeCommand('cursor-provider-bridge.showRequestInspector');
+                    break;
+                case 'Usage Statistics':
+                    await this.showUsageStatistics();
+                    break;
+                case 'Clear Cache':
+                    await vscode.commands.executeCommand('cursor-provider-bridge.clearResponseCache');
+                    break;
                 case 'Configure':
                     await this.openConfiguration();
                     break;
@@ -202,19 +320,16 @@ export class StatusBarManager implements vscode.Disposable {
     private async startBridge(): Promise<void> {
         await this.tunnelManager.start();
         vscode.window.showInformationMessage('Cursor Provider Bridge started');
-        this.updateStatusBar();
     }
 
     private async stopBridge(): Promise<void> {
         await this.tunnelManager.stop();
         vscode.window.showInformationMessage('Cursor Provider Bridge stopped');
-        this.updateStatusBar();
     }
 
     private async restartBridge(): Promise<void> {
         await this.tunnelManager.restart();
         vscode.window.showInformationMessage('Cursor Provider Bridge restarted');
-        this.updateStatusBar();
     }
 
     private async copyBridgeUrl(): Promise<void> {
@@ -229,6 +344,52 @@ export class StatusBarManager implements vscode.Disposable {
         vscode.window.showInformationMessage(`Bridge URL copied to clipboard: ${status.url}`);
     }
 
+    private async copyApiKey(): Promise<void> {
+        const apiKey = await this.configManager.ensureBridgeApiKey();
+        await vscode.env.clipboard.writeText(apiKey);
+        vscode.window.showInformationMessage('Bridge API key copied to clipboard');
+    }
+
+    private async rotateApiKey(): Promise<void> {
+        const confirmation = await vscode.window.showWarningMessage(
+            'Rotate the bridge API key? Cursor will need the new key before it can use the bridge again.',
+            { modal: true },
+            'Rotate'
+        );
+
+        if (confirmation !== 'Rotate') {
+            return;
+        }
+
+        const apiKey = await this.configManager.rotateBridgeApiKey();
+        await vscode.env.clipboard.writeText(apiKey);
+        vscode.window.showInformationMessage('Bridge API key rotated and copied to clipboard');
+    }
+
+    private async showUsageStatistics(): Promise<void> {
+        const summary = this.usageMetrics.getSummary();
+        const items: QuickPickOption[] = summary.models.map(model => ({
+            label: model.model,
+            description: this.formatUsage(model),
+            detail: `Prompt: ${this.formatTokenCount(model.promptTokens)} · Completion: ${this.formatTokenCount(model.completionTokens)}` +
+                (model.averageTimeToFirstTokenMs !== undefined ? ` · Time to first token: ${model.averageTimeToFirstTokenMs}ms` : '')
+        }));
+
+        items.push({
+            label: 'Reset Usage Statistics',
+            description: 'Clear all recorded usage'
+        });
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: summary.requests > 0 ? `Last 24h: ${this.formatUsage(summary)}` : 'No requests in the last 24 hours',
+            title: 'Usage Statistics'
+        });
+
+        if (selection?.label === 'Reset Usage Statistics') {
+            this.usageMetrics.reset();
+            vscode.window.showInformationMessage('Usage statistics reset');
+        }
+    }
 
     private async openConfiguration(): Promise<void> {
         await this.configManager.showConfigurationQuickPick();
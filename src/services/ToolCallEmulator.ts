@@ -0,0 +1,324 @@
+import * as crypto from 'crypto';
+import { createChunk, withTemplateUsage } from '../utils/chatStream';
+import {
+    ChatCompletionChunk,
+    ChatCompletionResponse,
+    ChatMessage,
+    ChatResponseProcessor,
+    ToolCall,
+    ToolChoice,
+    ToolDefinition
+} from '../types';
+
+interface ParsedOutput {
+    readonly text: string;
+    readonly toolCalls: ReadonlyArray<ToolCall>;
+}
+
+const TOOL_CALL_OPEN = '<tool_call>';
+const TOOL_CALL_CLOSE = '</tool_call>';
+const CODE_FENCE = /^```[a-zA-Z]*\s*([\s\S]*?)\s*```$/;
+
+export function requestsTools(body: Record<string, unknown>): boolean {
+    return Array.isArray(body.tools) && body.tools.length > 0 ||
+        Array.isArray(body.messages) && (body.messages as ChatMessage[])
+            .some(message => message.role === 'tool' || Boolean(message.tool_calls?.length));
+}
+
+export function toEmulatedToolRequest(body: Record<string, unknown>): Record<string, unknown> {
+    const tools = body.tools as ReadonlyArray<ToolDefinition> | undefined;
+    const toolChoice = body.tool_choice as ToolChoice | undefined;
+    const request: Record<string, unknown> = { ...body };
+    delete request.tools;
+    delete request.tool_choice;
+    delete request.parallel_tool_calls;
+
+    const toolNames = new Map<string, string>();
+    const messages: ChatMessage[] = [];
+
+    for (const message of (body.messages ?? []) as ChatMessage[]) {
+        if (message.role === 'assistant' && message.tool_calls?.length) {
+            for (const toolCall of message.tool_calls) {
+                toolNames.set(toolCall.id, toolCall.function.name);
+            }
+            const calls = message.tool_calls.map(formatToolCall).join('\n');
+            const text = contentText(message.content);
+            messages.push({ role: 'assistant', content: text ? `${text}\n${calls}` : calls });
+        } else if (message.role === 'tool') {
+            messages.push({ role: 'user', content: formatToolResponse(message, toolNames.get(message.tool_call_id ?? '')) });
+        } else {
+            messages.push(message);
+        }
+    }
+
+    const prompt = toolChoice === 'none' || !tools?.length ? '' : buildToolPrompt(tools, toolChoice);
+    if (prompt) {
+        const systemIndex = messages.findIndex(message => message.role === 'system');
+        if (systemIndex >= 0) {
+            const system = messages[systemIndex];
+            messages[systemIndex] = { role: 'system', content: `${contentText(system.content)}\n\n${prompt}` };
+        } else {
+            messages.unshift({ role: 'system', content: prompt });
+        }
+    }
+
+    request.messages = messages;
+    return request;
+}
+
+function contentText(content: ChatMessage['content']): string {
+    if (typeof content === 'string') {
+        return content;
+    }
+    return (content ?? []).map(part => part.type === 'text' ? part.text : '').join('');
+}
+
+function formatToolCall(toolCall: ToolCall): string {
+    let args: unknown = toolCall.function.arguments;
+    try {
+        args = JSON.parse(toolCall.function.arguments || '{}');
+    } catch {
+        // Keep the raw argument string when the client sent invalid JSON
+    }
+    return `${TOOL_CALL_OPEN}\n${JSON.stringify({ name: toolCall.function.name, arguments: args })}\n${TOOL_CALL_CLOSE}`;
+}
+
+function formatToolResponse(message: ChatMessage, toolName: string | undefined): string {
+    const name = toolName ? ` name="${toolName}"` : '';
+    return `<tool_response${name}>\n${contentText(message.content)}\n</tool_response>`;
+}
+
+function buildToolPrompt(tools: ReadonlyArray<ToolDefinition>, toolChoice: ToolChoice | undefined): string {
+    const lines = [
+        '# Tools',
+        '',
+        'You may call one or more functions to assist with the user query. The available functions are described by these JSON schemas:',
+        '<tools>',
+        ...tools.map(tool => JSON.stringify(tool.function)),
+        '</tools>',
+        '',
+        'To call a function, reply with a JSON object containing the function name and arguments inside tags, one block per call:',
+        TOOL_CALL_OPEN,
+        '{"name": "<function-name>", "arguments": {<arguments>}}',
+        TOOL_CALL_CLOSE,
+        'Do not wrap the tags in code fences. Function results are returned to you inside <tool_response></tool_response> tags.'
+    ];
+
+    if (toolChoice === 'required') {
+        lines.push('You must call at least one function in your reply.');
+    } else if (typeof toolChoice === 'object') {
+        lines.push(`You must call the "${toolChoice.function.name}" function in your reply.`);
+    }
+
+    return lines.join('\n');
+}
+
+function createToolCallId(): string {
+    return `call_${crypto.randomBytes(12).toString('hex')}`;
+}
+
+function parseToolCalls(payload: string, toolNames?: ReadonlySet<string>): ToolCall[] | null {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(payload.trim());
+    } catch {
+        return null;
+    }
+
+    const candidates = Array.isArray(parsed) ? parsed : [parsed];
+    const toolCalls: ToolCall[] = [];
+
+    for (const candidate of candidates as Array<Record<string, unknown> | null>) {
+        const name = candidate?.name;
+        if (typeof name !== 'string' || !name || (toolNames && !toolNames.has(name))) {
+            return null;
+        }
+        const args = candidate?.arguments ?? candidate?.parameters ?? {};
+        toolCalls.push({
+            id: createToolCallId(),
+            type: 'function',
+            function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args) }
+        });
+    }
+
+    return toolCalls.length > 0 ? toolCalls : null;
+}
+
+export class ToolCallParser {
+    private buffer = '';
+    private mode: 'detect' | 'text' | 'json' = 'detect';
+    private insideTag = false;
+
+    constructor(private readonly toolNames: ReadonlySet<string>) {}
+
+    feed(text: string): ParsedOutput {
+        this.buffer += text;
+
+        if (this.mode === 'detect') {
+            const trimmed = this.buffer.trimStart();
+            if (!trimmed || (trimmed.startsWith('`') && trimmed.length < 3 && /^`+$/.test(trimmed))) {
+                return { text: '', toolCalls: [] };
+            }
+            this.mode = trimmed.startsWith('{') || trimmed.startsWith('[') || trimmed.startsWith('```') ? 'json' : 'text';
+        }
+
+        return this.mode === 'json' ? { text: '', toolCalls: [] } : this.scanTags();
+    }
+
+    finish(): ParsedOutput {
+        const remaining = this.buffer;
+        this.buffer = '';
+
+        if (this.mode === 'json') {
+            const trimmed = remaining.trim();
+            const fenced = CODE_FENCE.exec(trimmed);
+            const toolCalls = parseToolCalls(fenced ? fenced[1] : trimmed, this.toolNames);
+            if (toolCalls) {
+                return { text: '', toolCalls };
+            }
+            this.mode = 'text';
+            this.buffer = remaining;
+            const scanned = this.scanTags();
+            const rest = this.finish();
+            return { text: scanned.text + rest.text, toolCalls: [...scanned.toolCalls, ...rest.toolCalls] };
+        }
+
+        if (this.insideTag) {
+            this.insideTag = false;
+            const toolCalls = parseToolCalls(remaining);
+            return toolCalls ? { text: '', toolCalls } : { text: TOOL_CALL_OPEN + remaining, toolCalls: [] };
+        }
+
+        return { text: remaining, toolCalls: [] };
+    }
+
+    private scanTags(): ParsedOutput {
+        let text = '';
+        const toolCalls: ToolCall[] = [];
+
+        for (;;) {
+            if (this.insideTag) {
+                const end = this.buffer.indexOf(TOOL_CALL_CLOSE);
+                if (end < 0) {
+                    break;
+                }
+                const payload = this.buffer.slice(0, end);
+                const parsed = parseToolCalls(payload);
+                if (parsed) {
+                    toolCalls.push(...parsed);
+                } else {
+                    text += TOOL_CALL_OPEN + payload + TOOL_CALL_CLOSE;
+                }
+                this.buffer = this.buffer.slice(end + TOOL_CALL_CLOSE.length);
+                this.insideTag = false;
+                continue;
+            }
+
+            const start = this.buffer.indexOf(TOOL_CALL_OPEN);
+            if (start >= 0) {
+                text += this.buffer.slice(0, start);
+                this.buffer = this.buffer.slice(start + TOOL_CALL_OPEN.length);
+                this.insideTag = true;
+                continue;
+            }
+
+            const held = partialTagLength(this.buffer);
+            text += this.buffer.slice(0, this.buffer.length - held);
+            this.buffer = this.buffer.slice(this.buffer.length - held);
+            break;
+        }
+
+        return { text, toolCalls };
+    }
+}
+
+function partialTagLength(text: string): number {
+    for (let length = Math.min(text.length, TOOL_CALL_OPEN.length - 1); length > 0; length--) {
+        if (TOOL_CALL_OPEN.startsWith(text.slice(-length))) {
+            return length;
+        }
+    }
+    return 0;
+}
+
+export class ToolCallEmulationProcessor implements ChatResponseProcessor {
+    private readonly parser: ToolCallParser;
+    private lastChunk: ChatCompletionChunk | null = null;
+    private toolCallCount = 0;
+    private finished = false;
+
+    constructor(tools: ReadonlyArray<ToolDefinition>) {
+        this.parser = new ToolCallParser(new Set(tools.map(tool => tool.function.name)));
+    }
+
+    processChunk(chunk: ChatCompletionChunk): ChatCompletionChunk[] {
+        const choice = chunk.choices[0];
+        if (!choice || this.finished) {
+            return [chunk];
+        }
+        this.lastChunk = chunk;
+
+        const { content, ...delta } = choice.delta;
+        const output: ChatCompletionChunk[] = [];
+
+        if (Object.keys(delta).length > 0) {
+            output.push(createChunk(chunk, delta));
+        }
+        if (content) {
+            output.push(...this.toChunks(chunk, this.parser.feed(content)));
+        }
+        if (choice.finish_reason) {
+            this.finished = true;
+            output.push(...this.toChunks(chunk, this.parser.finish()));
+            output.push(createChunk(chunk, {}, this.toolCallCount > 0 ? 'tool_calls' : choice.finish_reason));
+        }
+
+        return withTemplateUsage(chunk, output);
+    }
+
+    flush(): ChatCompletionChunk[] {
+        if (this.finished || !this.lastChunk) {
+            return [];
+        }
+        this.finished = true;
+        return this.toChunks(this.lastChunk, this.parser.finish());
+    }
+
+    processCompletion(completion: ChatCompletionResponse): ChatCompletionResponse {
+        return {
+            ...completion,
+            choices: completion.choices?.map(choice => {
+                if (typeof choice.message?.content !== 'string') {
+                    return choice;
+                }
+
+                const streamed = this.parser.feed(choice.message.content);
+                const finished = this.parser.finish();
+                const toolCalls = [...streamed.toolCalls, ...finished.toolCalls];
+                if (toolCalls.length === 0) {
+                    return choice;
+                }
+
+                const text = (streamed.text + finished.text).trim();
+                return {
+                    ...choice,
+                    message: { ...choice.message, content: text || null, tool_calls: toolCalls },
+                    finish_reason: 'tool_calls'
+                };
+            })
+        };
+    }
+
+    private toChunks(template: ChatCompletionChunk, parsed: ParsedOutput): ChatCompletionChunk[] {
+        const chunks: ChatCompletionChunk[] = [];
+
+        if (parsed.text) {
+            chunks.push(createChunk(template, { content: parsed.text }));
+        }
+        for (const toolCall of parsed.toolCalls) {
+            chunks.push(createChunk(template, { tool_calls: [{ index: this.toolCallCount++, ...toolCall }] }));
+        }
+
+        return chunks;
+    }
+}
@@ -1,33 +1,73 @@
-import ngrok from '@ngrok/ngrok';
 import {
     ITunnelManager,
+    ITunnelProvider,
     IConfigurationManager,
     IModelProvider,
     TunnelStatus,
+    TunnelState,
+    TunnelStatusChangedEvent,
     TunnelError,
     BridgeConfiguration,
-    NgrokTunnel,
-    NgrokOptions,
-    TunnelStartResult
+    TunnelHandle,
+    TunnelStartResult,
+    TunnelReconnectEvent,
+    BridgeError,
+    DEFAULT_RETRY_CONFIG
 } from '../types';
 import { getLogger } from '../utils/logger';
 import { safeAsync, retry, withTimeout } from '../utils/async';
 import { ProxyServer } from './ProxyServer';
+import { RequestTracker } from './RequestTracker';
+import { ResponseCache } from './ResponseCache';
+import { createTunnelProvider } from './TunnelProviders';
+import { TunnelWatchdog } from './TunnelWatchdog';
 
-export class NgrokTunnelManager implements ITunnelManager {
+export class TunnelManager implements ITunnelManager {
     private static readonly START_TIMEOUT = 30000;
     private static readonly STOP_TIMEOUT = 10000;
 
-    private tunnel: NgrokTunnel | null = null;
+    private tunnel: TunnelHandle | null = null;
+    private tunnelProvider: ITunnelProvider | null = null;
     private proxyServer: ProxyServer | null = null;
     private status: TunnelStatus = { isRunning: false };
+    private isReconnecting = false;
+    private readonly watchdog: TunnelWatchdog;
+    private readonly reconnectListeners = new Set<(event: TunnelReconnectEvent) => void>();
+    private readonly statusListeners = new Set<(event: TunnelStatusChangedEvent) => void>();
+    private lastNotifiedStatus: TunnelStatus = { isRunning: false };
     private readonly logger = getLogger();
 
     constructor(
         private readonly configManager: IConfigurationManager,
-        private readonly modelProvider: IModelProvider
+        private readonly modelProvider: IModelProvider,
+        requestTracker?: RequestTracker,
+        responseCache?: ResponseCache
     ) {
-        this.proxyServer = new ProxyServer(configManager, modelProvider);
+        this.proxyServer = new ProxyServer(configManager, modelProvider, requestTracker, () => this.getStatus(), responseCache);
+        this.watchdog = new TunnelWatchdog(configManager, this.proxyServer, () => this.getStatus(), reason => {
+            this.reconnect(reason).catch(error => {
+                this.logger.error('Tunnel reconnection failed', error);
+            });
+        });
+        this.proxyServer.onDidFailover(() => this.notifyStatusChange());
+    }
+
+    onDidChangeStatus(listener: (event: TunnelStatusChangedEvent) => void): { dispose(): void } {
+        this.statusListeners.add(listener);
+        return {
+            dispose: () => {
+                this.statusListeners.delete(listener);
+            }
+        };
+    }
+
+    onDidReconnect(listener: (event: TunnelReconnectEvent) => void): { dispose(): void } {
+        this.reconnectListeners.add(listener);
+        return {
+            dispose: () => {
+                this.reconnectListeners.delete(listener);
+            }
+        };
     }
 
     async start(): Promise<void> {
@@ -41,11 +81,12 @@ export class NgrokTunnelManager implements ITunnelManager {
             return;
         }
 
-        this.status = { ...this.status, isStarting: true };
+        this.setStatus({ ...this.status, isStarting: true });
 
         try {
             await this.cleanupExistingProxy();
             const config = this.configManager.getConfiguration();
+            this.tunnelProvider = createTunnelProvider(config.tunnelProvider);
 
             const result = await this.startTunnelWithRetry(config);
             
@@ -55,8 +96,9 @@ export class NgrokTunnelManager implements ITunnelManager {
             }
 
             this.updateSuccessfulStartStatus(result.data!, config);
+            this.watchdog.start();
         } finally {
-            this.status = { ...this.status, isStarting: false };
+            this.setStatus({ ...this.status, isStarting: false });
         }
     }
 
@@ -69,8 +111,13 @@ export class NgrokTunnelManager implements ITunnelManager {
     }
 
     private logStartupInfo(config: BridgeConfiguration): void {
-        this.logger.info('Starting proxy server and ngrok tunnel', {
+        const target = config.tunnelProvider === 'none' ? 'without a tunnel' : `and ${config.tunnelProvider} tunnel`;
+        this.logger.info(`Starting proxy server ${target}`, {
             providerUrl: config.providerUrl,
+            additionalProviders: config.providers.map(provider => provider.name),
+            proxyPort: config.proxyPort,
+            autoSelectProxyPort: config.autoSelectProxyPort,
+            listenHost: config.listenHost,
             region: config.ngrokRegion,
             hasDomain: !!config.ngrokDomain,
             hasAuthToken: !!config.ngrokAuthToken
@@ -83,10 +130,12 @@ export class NgrokTunnelManager implements ITunnelManager {
         return await safeAsync(async () => {
             return await withTimeout(
                 retry(async () => {
-                    const proxyPort = await this.proxyServer!.start();
+                    const proxyPort = this.proxyServer!.isServerRunning()
+                        ? this.proxyServer!.getPort()
+                        : await this.proxyServer!.start();
                     return await this.createTunnel(config, proxyPort);
                 }, 2),
-                NgrokTunnelManager.START_TIMEOUT
+                TunnelManager.START_TIMEOUT
             );
         });
     }
@@ -94,30 +143,30 @@ export class NgrokTunnelManager implements ITunnelManager {
     private async handleStartupFailure(error?: Error): Promise<void> {
         await this.cleanupExistingProxy();
         
-        this.status = { 
+        this.setStatus({
             isRunning: false,
             isStarting: false,
-            error: error?.message || 'Unknown error' 
-        };
+            error: error?.message || 'Unknown error',
+            errorCode: error instanceof BridgeError ? error.code : 'TUNNEL_ERROR'
+        });
         
-        if (error?.message?.includes('PORT_IN_USE')) {
+        if (error instanceof BridgeError && error.code === 'PORT_IN_USE') {
             this.logger.error('Port conflict detected', error);
-            throw new TunnelError(
-                'Port 8082 is already in use. Please stop any other applications using this port or restart Cursor.',
-                error
-            );
+            throw new TunnelError(error.message, error);
         }
         
         this.logger.error('Failed to start tunnel', error);
-        throw new TunnelError('Failed to start ngrok tunnel', error);
+        throw new TunnelError(`Failed to start ${this.tunnelProvider?.name ?? 'ngrok'} tunnel`, error);
     }
 
     private updateSuccessfulStartStatus(data: TunnelStartResult, config: BridgeConfiguration): void {
         this.tunnel = data.tunnel;
-        this.status = { 
-            isRunning: true, 
-            url: data.url || '' 
-        };
+        this.setStatus({
+            isRunning: true,
+            provider: this.tunnelProvider?.name,
+            url: data.url || '',
+            proxyPort: data.proxyPort
+        });
 
         this.logger.info('Tunnel started successfully', {
             url: this.status.url,
@@ -127,6 +176,9 @@ export class NgrokTunnelManager implements ITunnelManager {
     }
 
     async stop(): Promise<void> {
+        this.setReconnecting(false);
+        this.watchdog.stop();
+
         const hasActiveTunnel = this.tunnel && this.status.isRunning;
         const hasActiveProxy = this.proxyServer?.isServerRunning();
         
@@ -138,11 +190,11 @@ export class NgrokTunnelManager implements ITunnelManager {
         ]);
 
         this.tunnel = null;
-        this.status = { isRunning: false, isStarting: false };
+        this.setStatus({ isRunning: false, isStarting: false });
 
         if (!tunnelResult.success) {
             this.logger.error('Error stopping tunnel', tunnelResult.error);
-            throw new TunnelError('Failed to stop ngrok tunnel cleanly', tunnelResult.error);
+            throw new TunnelError(`Failed to stop ${this.tunnelProvider?.name ?? 'ngrok'} tunnel cleanly`, tunnelResult.error);
         }
 
         if (!proxyResult.success) {
@@ -156,7 +208,7 @@ export class NgrokTunnelManager implements ITunnelManager {
         return await safeAsync(async () => {
             return await withTimeout(
                 this.tunnel!.close(),
-                NgrokTunnelManager.STOP_TIMEOUT
+                TunnelManager.STOP_TIMEOUT
             );
         });
     }
@@ -189,6 +241,8 @@ export class NgrokTunnelManager implements ITunnelManager {
     }
 
     private async gracefulStop(): Promise<void> {
+        this.watchdog.stop();
+
         const hasActiveTunnel = this.tunnel && this.status.isRunning;
         const hasActiveProxy = this.proxyServer?.isServerRunning();
         
@@ -206,7 +260,7 @@ export class NgrokTunnelManager implements ITunnelManager {
             ]);
 
             this.tunnel = null;
-            this.status = { isRunning: false, isStarting: false };
+            this.setStatus({ isRunning: false, isStarting: false });
 
             if (tunnelResult.status === 'rejected') {
                 this.logger.warn('Tunnel stop had issues during graceful restart', tunnelResult.reason);
@@ -227,10 +281,127 @@ export class NgrokTunnelManager implements ITunnelManager {
     }
 
     getStatus(): TunnelStatus {
-        return { ...this.status };
+        const lastFailover = this.proxyServer?.getLastFailover();
+        const status = this.isReconnecting ? { ...this.status, isReconnecting: true } : { ...this.status };
+        return lastFailover ? { ...status, lastFailover } : status;
+    }
+
+    private async reconnect(reason: string): Promise<void> {
+        if (this.isReconnecting || this.status.isStarting) {
+            return;
+        }
+
+        const previousUrl = this.status.url;
+        const { maxAttempts, initialDelay, maxDelay, backoffMultiplier } = DEFAULT_RETRY_CONFIG;
+        this.setReconnecting(true);
+        this.logger.warn(`Tunnel appears to be down (${reason}), reconnecting`);
+
+        let delay = initialDelay;
+        let lastError: unknown;
+        try {
+            for (let attempt = 1; attempt <= maxAttempts && this.isReconnecting; attempt++) {
+                await new Promise(resolve => setTimeout(resolve, delay));
+                delay = Math.min(delay * backoffMultiplier, maxDelay);
+                if (!this.isReconnecting) {
+                    return;
+                }
+
+                try {
+                    await this.gracefulStop();
+                    await this.start();
+                    this.logger.info(`Tunnel reconnected after ${attempt} attempt(s)`, { previousUrl, url: this.status.url });
+                    this.notifyReconnect({ reason, succeeded: true, previousUrl, url: this.status.url });
+                    return;
+                } catch (error) {
+                    lastError = error;
+                    this.logger.warn(`Tunnel reconnection attempt ${attempt}/${maxAttempts} failed`, error);
+                }
+            }
+
+            if (this.isReconnecting) {
+                const message = lastError instanceof Error ? lastError.message : reason;
+                this.setStatus({
+                    isRunning: false,
+                    isStarting: false,
+                    error: `Tunnel connection lost: ${message}`,
+                    errorCode: 'TUNNEL_CONNECTION_LOST'
+                });
+                this.setReconnecting(false);
+                this.notifyReconnect({ reason, succeeded: false, previousUrl });
+            }
+        } finally {
+            this.setReconnecting(false);
+        }
+    }
+
+    private setStatus(status: TunnelStatus): void {
+        this.status = status;
+        this.notifyStatusChange();
+    }
+
+    private setReconnecting(isReconnecting: boolean): void {
+        if (this.isReconnecting !== isReconnecting) {
+            this.isReconnecting = isReconnecting;
+            this.notifyStatusChange();
+        }
+    }
+
+    private notifyStatusChange(): void {
+        const oldStatus = this.lastNotifiedStatus;
+        const newStatus = this.getStatus();
+        const previousState = this.getState(oldStatus);
+        const state = this.getState(newStatus);
+
+        if (state === previousState && !this.hasStatusDetailsChanged(oldStatus, newStatus)) {
+            return;
+        }
+
+        this.lastNotifiedStatus = newStatus;
+        this.logger.debug(`Tunnel status changed: ${previousState} -> ${state}`);
+        for (const listener of this.statusListeners) {
+            try {
+                listener({ oldStatus, newStatus, previousState, state });
+            } catch (error) {
+                this.logger.error('Error in tunnel status listener', error);
+            }
+        }
+    }
+
+    private getState(status: TunnelStatus): TunnelState {
+        if (status.isReconnecting) {
+            return 'reconnecting';
+        }
+        if (status.isStarting) {
+            return 'starting';
+        }
+        if (status.isRunning) {
+            return 'running';
+        }
+        return status.error ? 'failed' : 'stopped';
+    }
+
+    private hasStatusDetailsChanged(oldStatus: TunnelStatus, newStatus: TunnelStatus): boolean {
+        return oldStatus.url !== newStatus.url ||
+            oldStatus.provider !== newStatus.provider ||
+            oldStatus.proxyPort !== newStatus.proxyPort ||
+            oldStatus.error !== newStatus.error ||
+            oldStatus.errorCode !== newStatus.errorCode ||
+            oldStatus.lastFailover?.timestamp !== newStatus.lastFailover?.timestamp;
+    }
+
+    private notifyReconnect(event: TunnelReconnectEvent): void {
+        for (const listener of this.reconnectListeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                this.logger.error('Error in tunnel reconnect listener', error);
+            }
+        }
     }
 
     async forceCleanup(): Promise<void> {
+        this.watchdog.stop();
+
         if (this.proxyServer?.isServerRunning()) {
             try {
                 await this.proxyServer.stop();
@@ -248,10 +419,15 @@ export class NgrokTunnelManager implements ITunnelManager {
         }
         
         this.tunnel = null;
-        this.status = { isRunning: false, isStarting: false };
+        this.setStatus({ isRunning: false, isStarting: false });
     }
 
     dispose(): void {
+        this.isReconnecting = false;
+        this.watchdog.stop();
+        this.reconnectListeners.clear();
+        this.statusListeners.clear();
+
         if (this.status.isRunning || this.proxyServer?.isServerRunning()) {
             this.stop().catch(error => {
                 this.logger.error('Error during tunnel disposal', error);
@@ -268,24 +444,18 @@ export class NgrokTunnelManager implements ITunnelManager {
     }
 
     private async createTunnel(config: BridgeConfiguration, proxyPort: number): Promise<TunnelStartResult> {
-        const proxyUrl = `http://localhost:${proxyPort}`;
-        const ngrokOptions = this.buildNgrokOptions(config, proxyUrl);
-
-        this.logger.debug('Creating tunnel with options', {
-            ...ngrokOptions,
-            authtoken: ngrokOptions.authtoken ? '[REDACTED]' : undefined,
-            proxyPort
-        });
-
-        const tunnel = await ngrok.forward(ngrokOptions) as NgrokTunnel;
+        const proxyUrl = this.proxyServer!.getLocalUrl();
+        const tunnel = await this.tunnelProvider!.connect(proxyUrl, config);
         const url = tunnel.url();
 
         if (!url) {
-            throw new TunnelError('Ngrok tunnel created but no URL received');
+            await tunnel.close();
+            throw new TunnelError(`${this.tunnelProvider!.name} tunnel created but no URL received`);
         }
 
         this.logger.debug('Tunnel created successfully', {
             url,
+            provider: this.tunnelProvider!.name,
             forwardingTo: proxyUrl,
             ultimateTarget: config.providerUrl,
             proxyPort
@@ -293,32 +463,16 @@ export class NgrokTunnelManager implements ITunnelManager {
 
         return { tunnel, url, proxyPort };
     }
-
-
-    private buildNgrokOptions(config: BridgeConfiguration, proxyUrl: string): NgrokOptions {
-        const options: NgrokOptions = {
-            addr: proxyUrl,
-            region: config.ngrokRegion
-        };
-
-        if (config.ngrokAuthToken?.trim()) {
-            options.authtoken = config.ngrokAuthToken;
-        }
-
-        if (config.ngrokDomain?.trim()) {
-            options.domain = config.ngrokDomain;
-        }
-
-        return options;
-    }
 }
 
 export function createTunnelManager(
     configManager: IConfigurationManager,
-    modelProvider: IModelProvider
+    modelProvider: IModelProvider,
+    requestTracker?: RequestTracker,
+    responseCache?: ResponseCache
 ): ITunnelManager {
     try {
-        return new NgrokTunnelManager(configManager, modelProvider);
+        return new TunnelManager(configManager, modelProvider, requestTracker, responseCache);
     } catch (error) {
         throw new TunnelError('Failed to create tunnel manager', error);
     }
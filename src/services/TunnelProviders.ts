@@ -0,0 +1,327 @@
+import ngrok from '@ngrok/ngrok';
+import { ChildProcess, spawn } from 'child_process';
+import {
+    BridgeConfiguration,
+    ITunnelProvider,
+    NgrokOptions,
+    NgrokTunnel,
+    TunnelError,
+    TunnelHandle,
+    TunnelProviderName
+} from '../types';
+import { getLogger } from '../utils/logger';
+import { getLanAddress, isLoopbackHost, isWildcardHost } from '../utils/network';
+
+interface ProcessTunnelOptions {
+    readonly label: string;
+    readonly command: string;
+    readonly args: ReadonlyArray<string>;
+    readonly shell?: boolean;
+    readonly urlPattern?: RegExp;
+    readonly fixedUrl?: string;
+}
+
+const PROCESS_READY_TIMEOUT = 20000;
+const PROCESS_STOP_TIMEOUT = 5000;
+const FIXED_URL_READY_DELAY = 3000;
+const MAX_OUTPUT_CHARS = 4096;
+
+export class NgrokTunnelProvider implements ITunnelProvider {
+    readonly name = 'ngrok';
+    private readonly logger = getLogger();
+
+    async connect(proxyUrl: string, config: BridgeConfiguration): Promise<TunnelHandle> {
+        const ngrokOptions = this.buildNgrokOptions(config, proxyUrl);
+
+        this.logger.debug('Creating ngrok tunnel with options', {
+            ...ngrokOptions,
+            authtoken: ngrokOptions.authtoken ? '[REDACTED]' : undefined,
+            basic_auth: ngrokOptions.basic_auth ? '[REDACTED]' : undefined,
+            oidc_client_secret: ngrokOptions.oidc_client_secret ? '[REDACTED]' : undefined
+        });
+
+        const tunnel = await ngrok.forward(ngrokOptions) as NgrokTunnel;
+        if (!tunnel.url()) {
+            throw new TunnelError('Ngrok tunnel created but no URL received');
+        }
+        return tunnel;
+    }
+
+    private buildNgrokOptions(config: BridgeConfiguration, proxyUrl: string): NgrokOptions {
+        const options: NgrokOptions = {
+            addr: proxyUrl,
+            region: config.ngrokRegion
+        };
+
+        if (config.ngrokAuthToken?.trim()) {
+            options.authtoken = config.ngrokAuthToken;
+        }
+
+        if (config.ngrokDomain?.trim()) {
+            options.domain = config.ngrokDomain;
+        }
+
+        if (config.ngrokBasicAuthUsername.trim() && config.ngrokBasicAuthPassword) {
+            options.basic_auth = `${config.ngrokBasicAuthUsername.trim()}:${config.ngrokBasicAuthPassword}`;
+        }
+
+        const allowEmails = config.ngrokAllowedEmails.length > 0 ? [...config.ngrokAllowedEmails] : undefined;
+        const allowDomains = config.ngrokAllowedDomains.length > 0 ? [...config.ngrokAllowedDomains] : undefined;
+
+        if (config.ngrokOAuthProvider !== 'none') {
+            options.oauth_provider = config.ngrokOAuthProvider;
+            options.oauth_allow_emails = allowEmails;
+            options.oauth_allow_domains = allowDomains;
+        } else if (config.ngrokOidcIssuerUrl.trim()) {
+            options.oidc_issuer_url = config.ngrokOidcIssuerUrl.trim();
+            options.oidc_client_id = config.ngrokOidcClientId.trim();
+            options.oidc_client_secret = config.ngrokOidcClientSecret;
+            options.oidc_allow_emails = allowEmails;
+            options.oidc_allow_domains = allowDomains;
+        }
+
+        if (config.ngrokIpAllowCidrs.length > 0) {
+            options.ip_restriction_allow_cidrs = [...config.ngrokIpAllowCidrs];
+        }
+
+        if (config.ngrokIpDenyCidrs.length > 0) {
+            options.ip_restriction_deny_cidrs = [...config.ngrokIpDenyCidrs];
+        }
+
+        if (config.ngrokTrafficPolicy.trim()) {
+            options.traffic_policy = config.ngrokTrafficPolicy;
+        }
+
+        return options;
+    }
+}
+
+export function describeNgrokProtections(config: BridgeConfiguration): string[] {
+    const protections: string[] = [];
+    const allowList = [...config.ngrokAllowedEmails, ...config.ngrokAllowedDomains.map(domain => `@${domain}`)];
+    const allowInfo = allowList.length > 0 ? ` (${allowList.join(', ')})` : '';
+
+    if (config.ngrokBasicAuthUsername.trim() && config.ngrokBasicAuthPassword) {
+        protections.push(`Basic auth as ${config.ngrokBasicAuthUsername.trim()}`);
+    }
+
+    if (config.ngrokOAuthProvider !== 'none') {
+        protections.push(`${config.ngrokOAuthProvider} OAuth${allowInfo}`);
+    } else if (config.ngrokOidcIssuerUrl.trim()) {
+        protections.push(`OIDC via ${config.ngrokOidcIssuerUrl.trim()}${allowInfo}`);
+    }
+
+    if (config.ngrokIpAllowCidrs.length > 0) {
+        protections.push(`IP allow: ${config.ngrokIpAllowCidrs.join(', ')}`);
+    }
+
+    if (config.ngrokIpDenyCidrs.length > 0) {
+        protections.push(`IP deny: ${config.ngrokIpDenyCidrs.join(', ')}`);
+    }
+
+    if (config.ngrokTrafficPolicy.trim()) {
+        protections.push('Traffic policy');
+    }
+
+    return protections;
+}
+
+export class CloudflaredTunnelProvider implements ITunnelProvider {
+    readonly name = 'cloudflared';
+
+    connect(proxyUrl: string, config: BridgeConfiguration): Promise<TunnelHandle> {
+        return spawnTunnelProcess({
+            label: 'cloudflared',
+            command: config.cloudflaredPath || 'cloudflared',
+            args: ['tunnel', '--no-autoupdate', '--url', proxyUrl],
+            urlPattern: /https:\/\/[a-z0-9-]+\.trycloudflare\.com/
+        });
+    }
+}
+
+export class SshTunnelProvider implements ITunnelProvider {
+    readonly name = 'ssh';
+
+    connect(proxyUrl: string, config: BridgeConfiguration): Promise<TunnelHandle> {
+        if (!config.sshTunnelHost.trim()) {
+            throw new TunnelError('SSH tunnel host is not configured');
+        }
+
+        const { hostname, port } = new URL(proxyUrl);
+        return spawnTunnelProcess({
+            label: 'ssh',
+            command: 'ssh',
+            args: [
+                '-N',
+                '-o', 'BatchMode=yes',
+                '-o', 'ExitOnForwardFailure=yes',
+                '-o', 'ServerAliveInterval=30',
+                '-R', `${config.sshTunnelRemotePort}:${hostname}:${port}`,
+                ...config.sshTunnelArgs,
+                config.sshTunnelHost.trim()
+            ],
+            fixedUrl: config.sshTunnelPublicUrl.trim() || undefined,
+            urlPattern: /https?:\/\/[^\s"'<>]+/
+        });
+    }
+}
+
+export class CommandTunnelProvider implements ITunnelProvider {
+    readonly name = 'command';
+
+    connect(proxyUrl: string, config: BridgeConfiguration): Promise<TunnelHandle> {
+        if (!config.tunnelCommand.trim()) {
+            throw new TunnelError('Tunnel command is not configured');
+        }
+
+        const command = config.tunnelCommand
+            .replace(/\{port\}/g, new URL(proxyUrl).port)
+            .replace(/\{url\}/g, proxyUrl);
+        return spawnTunnelProcess({
+            label: 'tunnel command',
+            command,
+            args: [],
+            shell: true,
+            urlPattern: new RegExp(config.tunnelCommandUrlPattern)
+        });
+    }
+}
+
+export class LocalNetworkProvider implements ITunnelProvider {
+    readonly name = 'none';
+    private readonly logger = getLogger();
+
+    async connect(proxyUrl: string, config: BridgeConfiguration): Promise<TunnelHandle> {
+        const { hostname, port } = new URL(proxyUrl);
+        const lanAddress = isWildcardHost(config.listenHost.trim()) ? getLanAddress() : undefined;
+        const url = lanAddress ? `http://${lanAddress}:${port}` : proxyUrl;
+        const reachability = isLoopbackHost(lanAddress ?? hostname) ? 'only from this machine' : 'on the local network';
+
+        this.logger.info(`No tunnel configured; the bridge is reachable ${reachability} at ${url}`);
+        return { url: () => url, close: async () => undefined };
+    }
+}
+
+export function createTunnelProvider(name: TunnelProviderName): ITunnelProvider {
+    switch (name) {
+        case 'cloudflared':
+            return new CloudflaredTunnelProvider();
+        case 'ssh':
+            return new SshTunnelProvider();
+        case 'command':
+            return new CommandTunnelProvider();
+        case 'none':
+            return new LocalNetworkProvider();
+        default:
+            return new NgrokTunnelProvider();
+    }
+}
+
+function spawnTunnelProcess(options: ProcessTunnelOptions): Promise<TunnelHandle> {
+    const logger = getLogger();
+
+    return new Promise((resolve, reject) => {
+        const child = spawn(options.command, [...options.args], {
+            shell: options.shell,
+            stdio: ['ignore', 'pipe', 'pipe'],
+            detached: process.platform !== 'win32',
+            windowsHide: true
+        });
+
+        let output = '';
+        let publicUrl: string | null = null;
+        let exited = false;
+        let settled = false;
+        let closing = false;
+
+        const timers = [
+            setTimeout(() => fail(`${options.label} did not report a public URL within ${PROCESS_READY_TIMEOUT / 1000}s`), PROCESS_READY_TIMEOUT),
+            ...(options.fixedUrl ? [setTimeout(() => succeed(options.fixedUrl!), FIXED_URL_READY_DELAY)] : [])
+        ];
+
+        const succeed = (url: string): void => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            timers.forEach(clearTimeout);
+            publicUrl = url;
+            logger.info(`${options.label} tunnel is ready at ${url}`);
+            resolve({
+                url: () => (exited ? null : publicUrl),
+                close: () => {
+                    closing = true;
+                    return stopProcess(child, () => exited);
+                }
+            });
+        };
+
+        const fail = (message: string, cause?: unknown): void => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            timers.forEach(clearTimeout);
+            const lastOutput = output.trim().split('\n').slice(-3).join('\n');
+            reject(new TunnelError(lastOutput ? `${message}: ${lastOutput}` : message, cause));
+            stopProcess(child, () => exited).catch(() => undefined);
+        };
+
+        const onOutput = (chunk: Buffer): void => {
+            const text = chunk.toString();
+            logger.debug(`[${options.label}] ${text.trim()}`);
+            if (settled) {
+                return;
+            }
+
+            output = (output + text).slice(-MAX_OUTPUT_CHARS);
+            const match = options.fixedUrl ? null : options.urlPattern?.exec(output);
+            if (match) {
+                succeed(match[1] ?? match[0]);
+            }
+        };
+
+        child.stdout?.on('data', onOutput);
+        child.stderr?.on('data', onOutput);
+        child.once('error', error => fail(`Failed to run ${options.label}: ${error.message}`, error));
+        child.once('exit', (code, signal) => {
+            exited = true;
+            if (settled && !closing) {
+                logger.warn(`${options.label} tunnel process exited (${code ?? signal})`);
+            } else if (!settled) {
+                fail(`${options.label} exited with ${code ?? signal} before the tunnel was ready`);
+            }
+        });
+    });
+}
+
+function stopProcess(child: ChildProcess, hasExited: () => boolean): Promise<void> {
+    if (hasExited() || child.pid === undefined) {
+        return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+        const forceTimer = setTimeout(() => {
+            signalProcess(child, 'SIGKILL');
+            resolve();
+        }, PROCESS_STOP_TIMEOUT);
+
+        child.once('exit', () => {
+            clearTimeout(forceTimer);
+            resolve();
+        });
+        signalProcess(child, 'SIGTERM');
+    });
+}
+
+function signalProcess(child: ChildProcess, signal: NodeJS.Signals): void {
+    try {
+        if (process.platform !== 'win32' && child.pid !== undefined) {
+            process.kill(-child.pid, signal);
+        } else {
+            child.kill(signal);
+        }
+    } catch {
+        child.kill(signal);
+    }
+}
@@ -0,0 +1,122 @@
+import { BridgeConfiguration, IConfigurationManager, TunnelStatus } from '../types';
+import { httpRequest } from '../utils/httpClient';
+import { getLogger } from '../utils/logger';
+import { ProxyServer } from './ProxyServer';
+import { describeNgrokProtections } from './TunnelProviders';
+
+export function getPublicProbeHeaders(config: BridgeConfiguration): Record<string, string> {
+    const headers: Record<string, string> = { 'ngrok-skip-browser-warning': '1' };
+    const username = config.ngrokBasicAuthUsername.trim();
+    if (config.tunnelProvider === 'ngrok' && username && config.ngrokBasicAuthPassword) {
+        headers.Authorization = `Basic ${Buffer.from(`${username}:${config.ngrokBasicAuthPassword}`).toString('base64')}`;
+    }
+    return headers;
+}
+
+export function isPublicProbeHealthy(status: number, config: BridgeConfiguration): boolean {
+    if (status >= 200 && status < 300) {
+        return true;
+    }
+
+    // An auth challenge, denial or login redirect from a protected ngrok edge still proves the tunnel is up
+    const edgeProtected = config.tunnelProvider === 'ngrok' && describeNgrokProtections(config).length > 0;
+    return edgeProtected && (status === 401 || status === 403 || (status >= 300 && status < 400));
+}
+
+export class TunnelWatchdog {
+    private static readonly PROBE_TIMEOUT = 10000;
+    private static readonly FAILURE_THRESHOLD = 2;
+
+    private readonly logger = getLogger();
+    private timer: NodeJS.Timeout | null = null;
+    private failures = 0;
+    private isProbing = false;
+
+    constructor(
+        private readonly configManager: IConfigurationManager,
+        private readonly proxyServer: ProxyServer,
+        private readonly getStatus: () => TunnelStatus,
+        private readonly onUnhealthy: (reason: string) => void
+    ) {}
+
+    start(): void {
+        this.stop();
+        const intervalMs = this.configManager.getConfiguration().tunnelWatchdogIntervalSeconds * 1000;
+        if (intervalMs <= 0) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.check().catch(error => {
+                this.logger.error('Tunnel watchdog check failed', error);
+            });
+        }, intervalMs);
+        this.logger.debug(`Tunnel watchdog started with a ${intervalMs / 1000}s interval`);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+        this.failures = 0;
+    }
+
+    private async check(): Promise<void> {
+        const status = this.getStatus();
+        if (this.isProbing || !status.isRunning || !status.url) {
+            return;
+        }
+
+        this.isProbing = true;
+        try {
+            const reason = await this.probe(status.url);
+            if (!reason) {
+                this.failures = 0;
+                return;
+            }
+
+            this.failures++;
+            this.logger.warn(`Tunnel health check failed (${this.failures}/${TunnelWatchdog.FAILURE_THRESHOLD}): ${reason}`);
+            if (this.failures >= TunnelWatchdog.FAILURE_THRESHOLD && this.timer) {
+                this.stop();
+                this.onUnhealthy(reason);
+            }
+        } finally {
+            this.isProbing = false;
+        }
+    }
+
+    private async probe(publicUrl: string): Promise<string | null> {
+        const probePath = this.proxyServer.getWatchdogProbePath();
+
+        const localStatus = this.proxyServer.isServerRunning()
+            ? await this.getProbeStatus(`${this.proxyServer.getLocalUrl()}${probePath}`, {})
+            : null;
+        if (localStatus === null || localStatus < 200 || localStatus >= 300) {
+            return 'local proxy server is not responding';
+        }
+
+        const config = this.configManager.getConfiguration();
+        const base = publicUrl.endsWith('/') ? publicUrl.slice(0, -1) : publicUrl;
+        const publicStatus = await this.getProbeStatus(`${base}${probePath}`, getPublicProbeHeaders(config));
+        if (publicStatus === null || !isPublicProbeHealthy(publicStatus, config)) {
+            return `public URL ${publicUrl} is not reaching the proxy`;
+        }
+
+        return null;
+    }
+
+    private async getProbeStatus(probeUrl: string, headers: Record<string, string>): Promise<number | null> {
+        try {
+            const response = await httpRequest(probeUrl, {
+                method: 'GET',
+                headers,
+                timeout: TunnelWatchdog.PROBE_TIMEOUT
+            });
+            return response.status;
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import { ModelUsageSummary, RequestRecord, UsageSummary } from '../types';
+import { getLogger } from '../utils/logger';
+import { estimateCompletionTokens, estimatePromptTokens } from '../utils/tokens';
+import { RequestTracker } from './RequestTracker';
+
+interface UsageBucket {
+    readonly hour: number;
+    readonly model: string;
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    firstTokenMsTotal: number;
+    firstTokenSamples: number;
+    generatedTokens: number;
+    generationMs: number;
+}
+
+export class UsageMetrics implements vscode.Disposable {
+    private static readonly STATE_KEY = 'usageMetrics';
+    private static readonly HOUR_MS = 60 * 60 * 1000;
+    private static readonly RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+    private static readonly SAVE_DELAY = 5000;
+    private static readonly CHAT_PATH = /\/(chat\/completions|completions|messages|responses)$/;
+
+    private readonly logger = getLogger();
+    private readonly buckets = new Map<string, UsageBucket>();
+    private readonly listeners = new Set<() => void>();
+    private readonly subscription: vscode.Disposable;
+    private saveTimeout: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly globalState: vscode.Memento,
+        requestTracker: RequestTracker
+    ) {
+        for (const bucket of globalState.get<UsageBucket[]>(UsageMetrics.STATE_KEY, [])) {
+            this.buckets.set(this.bucketKey(bucket.hour, bucket.model), { ...bucket });
+        }
+        this.prune();
+        this.subscription = requestTracker.onDidCompleteRequest(record => this.record(record));
+    }
+
+    getSummary(windowMs = 24 * UsageMetrics.HOUR_MS): UsageSummary {
+        const since = Date.now() - windowMs;
+        const byModel = new Map<string, UsageBucket>();
+
+        for (const bucket of this.buckets.values()) {
+            if (bucket.hour + UsageMetrics.HOUR_MS <= since) {
+                continue;
+            }
+            const total = byModel.get(bucket.model) ?? this.createBucket(0, bucket.model);
+            this.mergeInto(total, bucket);
+            byModel.set(bucket.model, total);
+        }
+
+        const overall = this.createBucket(0, '');
+        for (const bucket of byModel.values()) {
+            this.mergeInto(overall, bucket);
+        }
+
+        return {
+            ...this.summarize(overall),
+            since,
+            models: [...byModel.values()]
+                .map(bucket => ({ model: bucket.model, ...this.summarize(bucket) }))
+                .sort((a, b) => b.requests - a.requests)
+        };
+    }
+
+    reset(): void {
+        this.buckets.clear();
+        this.save();
+        this.notify();
+    }
+
+    onDidChange(listener: () => void): vscode.Disposable {
+        this.listeners.add(listener);
+        return new vscode.Disposable(() => {
+            this.listeners.delete(listener);
+        });
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this.listeners.clear();
+        if (this.saveTimeout) {
+            clearTimeout(this.saveTimeout);
+            this.saveTimeout = null;
+            this.save();
+        }
+    }
+
+    private record(record: RequestRecord): void {
+        if (!UsageMetrics.CHAT_PATH.test(record.path) || !record.status || record.status >= 400) {
+            return;
+        }
+
+        const model = record.model ?? 'unknown';
+        const hour = Math.floor(record.startedAt / UsageMetrics.HOUR_MS) * UsageMetrics.HOUR_MS;
+        const key = this.bucketKey(hour, model);
+        const bucket = this.buckets.get(key) ?? this.createBucket(hour, model);
+
+        const promptTokens = record.usage?.prompt_tokens ?? estimatePromptTokens(record.requestBody ?? '');
+        const completionTokens = record.usage?.completion_tokens ?? estimateCompletionTokens(record.responseBody ?? '');
+
+        bucket.requests++;
+        bucket.promptTokens += promptTokens;
+        bucket.completionTokens += completionTokens;
+
+        if (record.timeToFirstTokenMs !== undefined) {
+            bucket.firstTokenMsTotal += record.timeToFirstTokenMs;
+            bucket.firstTokenSamples++;
+
+            const generationMs = (record.durationMs ?? 0) - record.timeToFirstTokenMs;
+            if (generationMs > 0 && completionTokens > 0) {
+                bucket.generatedTokens += completionTokens;
+                bucket.generationMs += generationMs;
+            }
+        }
+
+        this.buckets.set(key, bucket);
+        this.scheduleSave();
+        this.notify();
+    }
+
+    private summarize(bucket: UsageBucket): Omit<ModelUsageSummary, 'model'> {
+        return {
+            requests: bucket.requests,
+            promptTokens: bucket.promptTokens,
+            completionTokens: bucket.completionTokens,
+            averageTimeToFirstTokenMs: bucket.firstTokenSamples > 0
+                ? Math.round(bucket.firstTokenMsTotal / bucket.firstTokenSamples)
+                : undefined,
+            averageTokensPerSecond: bucket.generationMs > 0
+                ? bucket.generatedTokens / (bucket.generationMs / 1000)
+                : undefined
+        };
+    }
+
+    private createBucket(hour: number, model: string): UsageBucket {
+        return {
+            hour,
+            model,
+            requests: 0,
+            promptTokens: 0,
+            completionTokens: 0,
+            firstTokenMsTotal: 0,
+            firstTokenSamples: 0,
+            generatedTokens: 0,
+            generationMs: 0
+        };
+    }
+
+    private mergeInto(target: UsageBucket, source: UsageBucket): void {
+        target.requests += source.requests;
+        target.promptTokens += source.promptTokens;
+        target.completionTokens += source.completionTokens;
+        target.firstTokenMsTotal += source.firstTokenMsTotal;
+        target.firstTokenSamples += source.firstTokenSamples;
+        target.generatedTokens += source.generatedTokens;
+        target.generationMs += source.generationMs;
+    }
+
+    private bucketKey(hour: number, model: string): string {
+        return `${hour}|${model}`;
+    }
+
+    private prune(): void {
+        const cutoff = Date.now() - UsageMetrics.RETENTION_MS;
+        for (const [key, bucket] of this.buckets) {
+            if (bucket.hour < cutoff) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimeout) {
+            return;
+        }
+        this.saveTimeout = setTimeout(() => {
+            this.saveTimeout = null;
+            this.save();
+        }, UsageMetrics.SAVE_DELAY);
+    }
+
+    private save(): void {
+        this.prune();
+        Promise.resolve(this.globalState.update(UsageMetrics.STATE_KEY, [...this.buckets.values()])).catch(error => {
+            this.logger.error('Failed to persist usage metrics', error);
+        });
+    }
+
+    private notify(): void {
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+}
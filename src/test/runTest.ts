@@ -0,0 +1,16 @@
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+async function main(): Promise<void> {
+    try {
+        const extensionDevelopmentPath = path.resolve(__dirname, '../../');
+        const extensionTestsPath = path.resolve(__dirname, './suite/index');
+
+        await runTests({ extensionDevelopmentPath, extensionTestsPath });
+    } catch (error) {
+        console.error('Failed to run tests', error);
+        process.exit(1);
+    }
+}
+
+main();
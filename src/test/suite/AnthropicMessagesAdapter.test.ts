@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import {
+    AnthropicStreamTranslator,
+    fromChatCompletion,
+    toChatCompletionRequest,
+    validateAnthropicRequest
+} from '../../services/AnthropicMessagesAdapter';
+import { ChatCompletionResponse } from '../../types';
+import { getStreamErrorMessage } from '../../utils/chatStream';
+import { SseParser } from '../../utils/sse';
+
+function parseEvents(output: string): Array<{ event?: string; data: Record<string, unknown> }> {
+    const parser = new SseParser();
+    return [...parser.feed(output), ...parser.flush()].map(event => ({ event: event.event, data: JSON.parse(event.data) }));
+}
+
+suite('AnthropicMessagesAdapter', () => {
+    test('rejects requests without max_tokens', () => {
+        const error = validateAnthropicRequest({ model: 'm', messages: [{ role: 'user', content: 'hi' }] } as never);
+        assert.match(error ?? '', /max_tokens/);
+    });
+
+    test('converts system prompt, tool use and tool results into chat messages', () => {
+        const body = toChatCompletionRequest({
+            model: 'claude',
+            max_tokens: 100,
+            system: [{ type: 'text', text: 'Be brief' }],
+            messages: [
+                { role: 'user', content: 'Weather?' },
+                {
+                    role: 'assistant',
+                    content: [{ type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Oslo' } }]
+                },
+                {
+                    role: 'user',
+                    content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'Sunny', is_error: false }]
+                }
+            ],
+            tools: [{ name: 'weather', input_schema: { type: 'object' } }],
+            tool_choice: { type: 'any' }
+        }, 'local-model');
+
+        assert.strictEqual(body.model, 'local-model');
+        assert.deepStrictEqual(body.messages, [
+            { role: 'system', content: 'Be brief' },
+            { role: 'user', content: 'Weather?' },
+            {
+                role: 'assistant',
+                content: null,
+                tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Oslo"}' } }]
+            },
+            { role: 'tool', tool_call_id: 'toolu_1', content: 'Sunny' }
+        ]);
+        assert.strictEqual(body.tool_choice, 'required');
+    });
+
+    test('maps a chat completion to an Anthropic message', () => {
+        const message = fromChatCompletion({
+            choices: [{
+                message: {
+                    content: 'Calling a tool',
+                    tool_calls: [{ id: 'call_1', function: { name: 'weather', arguments: '{"city":"Oslo"}' } }]
+                },
+                finish_reason: 'tool_calls'
+            }],
+            usage: { prompt_tokens: 12, completion_tokens: 5 }
+        } as unknown as ChatCompletionResponse, 'claude');
+
+        assert.strictEqual(message.stop_reason, 'tool_use');
+        assert.deepStrictEqual(message.content, [
+            { type: 'text', text: 'Calling a tool' },
+            { type: 'tool_use', id: 'call_1', name: 'weather', input: { city: 'Oslo' } }
+        ]);
+        assert.deepStrictEqual(message.usage, { input_tokens: 12, output_tokens: 5 });
+    });
+
+    test('streams text and tool calls as content blocks', () => {
+        const translator = new AnthropicStreamTranslator('claude');
+        const output = translator.start() +
+            translator.translate({ choices: [{ delta: { content: 'Hi' } }] } as never) +
+            translator.translate({
+                choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'weather', arguments: '{}' } }] } }]
+            } as never) +
+            translator.translate({ choices: [{ delta: {}, finish_reason: 'tool_calls' }] } as never) +
+            translator.finish();
+
+        const events = parseEvents(output);
+        assert.deepStrictEqual(events.map(event => event.event), [
+            'message_start',
+            'content_block_start',
+            'content_block_delta',
+            'content_block_stop',
+            'content_block_start',
+            'content_block_delta',
+            'content_block_stop',
+            'message_delta',
+            'message_stop'
+        ]);
+        assert.strictEqual((events[4].data.content_block as Record<string, unknown>).type, 'tool_use');
+        assert.strictEqual((events[7].data.delta as Record<string, unknown>).stop_reason, 'tool_use');
+    });
+
+    test('turns an upstream stream error into an Anthropic error event', () => {
+        const translator = new AnthropicStreamTranslator('claude');
+        const message = getStreamErrorMessage({ error: { message: 'out of memory', type: 'provider_error' } });
+        assert.strictEqual(message, 'out of memory');
+
+        const events = parseEvents(translator.start() +
+            translator.translate({ choices: [{ delta: { content: 'Hi' } }] } as never) +
+            translator.error(message!));
+        const last = events[events.length - 1];
+        assert.strictEqual(last.event, 'error');
+        assert.deepStrictEqual(last.data, { type: 'error', error: { type: 'api_error', message: 'out of memory' } });
+        assert.ok(!events.some(event => event.event === 'message_stop'));
+    });
+});
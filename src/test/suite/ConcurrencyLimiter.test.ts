@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { ConcurrencyLimiter } from '../../services/ConcurrencyLimiter';
+import { QueueTimeoutError } from '../../types';
+
+suite('ConcurrencyLimiter', () => {
+    test('grants slots immediately when the limit is disabled', async () => {
+        const limiter = new ConcurrencyLimiter();
+        const slots = await Promise.all([1, 2, 3].map(() => limiter.acquire('local', 0, 'normal', 1000)));
+
+        assert.deepStrictEqual(limiter.getSnapshot(), [{ provider: 'local', active: 3, queued: 0 }]);
+        slots.forEach(slot => slot.release());
+        assert.strictEqual(limiter.getSnapshot()[0].active, 0);
+    });
+
+    test('hands released slots to waiting requests by priority', async () => {
+        const limiter = new ConcurrencyLimiter();
+        const first = await limiter.acquire('local', 1, 'normal', 1000);
+        const granted: string[] = [];
+
+        const low = limiter.acquire('local', 1, 'low', 1000).then(slot => {
+            granted.push('low');
+            return slot;
+        });
+        const high = limiter.acquire('local', 1, 'high', 1000).then(slot => {
+            granted.push('high');
+            return slot;
+        });
+        assert.strictEqual(limiter.getSnapshot()[0].queued, 2);
+
+        first.release();
+        (await high).release();
+        (await low).release();
+
+        assert.deepStrictEqual(granted, ['high', 'low']);
+        assert.deepStrictEqual(limiter.getSnapshot(), [{ provider: 'local', active: 0, queued: 0 }]);
+    });
+
+    test('releasing a slot twice frees it only once', async () => {
+        const limiter = new ConcurrencyLimiter();
+        const first = await limiter.acquire('local', 2, 'normal', 1000);
+        await limiter.acquire('local', 2, 'normal', 1000);
+
+        first.release();
+        first.release();
+        assert.strictEqual(limiter.getSnapshot()[0].active, 1);
+    });
+
+    test('rejects with a retry hint when the queue wait expires', async () => {
+        const limiter = new ConcurrencyLimiter();
+        await limiter.acquire('local', 1, 'normal', 1000);
+
+        await assert.rejects(limiter.acquire('local', 1, 'normal', 10), (error: unknown) => {
+            assert.ok(error instanceof QueueTimeoutError);
+            assert.ok(error.retryAfterSeconds >= 1);
+            return true;
+        });
+        assert.strictEqual(limiter.getSnapshot()[0].queued, 0);
+    });
+
+    test('removes cancelled requests from the queue', async () => {
+        const limiter = new ConcurrencyLimiter();
+        await limiter.acquire('local', 1, 'normal', 1000);
+        const controller = new AbortController();
+
+        const waiting = limiter.acquire('local', 1, 'normal', 1000, controller.signal);
+        controller.abort();
+
+        await assert.rejects(waiting, { code: 'REQUEST_CANCELLED' });
+        assert.strictEqual(limiter.getSnapshot()[0].queued, 0);
+    });
+});
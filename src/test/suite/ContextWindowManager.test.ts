@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { ContextWindowManager } from '../../services/ContextWindowManager';
+import {
+    BridgeConfiguration,
+    ContextLengthError,
+    DEFAULT_CONFIGURATION,
+    IConfigurationManager,
+    IModelProvider
+} from '../../types';
+
+function createManager(overrides: Partial<BridgeConfiguration>, discoveredLength?: number): ContextWindowManager {
+    const config = { ...DEFAULT_CONFIGURATION, ...overrides };
+    const configManager = { getConfiguration: () => config } as unknown as IConfigurationManager;
+    const modelProvider = { getContextLength: async () => discoveredLength } as unknown as IModelProvider;
+    return new ContextWindowManager(configManager, modelProvider);
+}
+
+function message(role: string, tokens: number, extra: Record<string, unknown> = {}): Record<string, unknown> {
+    // estimateMessageTokens adds 4 tokens of overhead and counts 4 characters per token
+    return { role, content: 'x'.repeat((tokens - 4) * 4), ...extra };
+}
+
+suite('ContextWindowManager', () => {
+    test('leaves requests alone when the strategy is off', async () => {
+        const request = { model: 'm', messages: [message('user', 500)] };
+        const fitted = await createManager({ contextStrategy: 'off' }, 100).fit(request);
+        assert.strictEqual(fitted, request);
+    });
+
+    test('uses configured context lengths before discovery', async () => {
+        const request = { model: 'qwen-7b', max_tokens: 10, messages: [message('user', 50)] };
+        const manager = createManager({ contextStrategy: 'dropOldest', contextLengths: { 'qwen-*': 40 } }, 1000);
+        await assert.rejects(manager.fit(request), ContextLengthError);
+    });
+
+    test('drops the oldest messages but keeps system prompts and the latest turn', async () => {
+        const request = {
+            model: 'm',
+            max_tokens: 20,
+            messages: [
+                message('system', 10),
+                message('user', 40),
+                message('assistant', 40, { tool_calls: [] }),
+                message('tool', 10),
+                message('user', 20)
+            ]
+        };
+
+        const fitted = await createManager({ contextStrategy: 'dropOldest' }, 80).fit(request);
+        const roles = (fitted.messages as Array<Record<string, unknown>>).map(item => item.role);
+        assert.deepStrictEqual(roles, ['system', 'user']);
+    });
+
+    test('truncates the largest tool results first', async () => {
+        const request = {
+            model: 'm',
+            max_tokens: 100,
+            messages: [message('user', 10), message('tool', 400), message('tool', 60), message('user', 10)]
+        };
+
+        const fitted = await createManager({ contextStrategy: 'truncateToolResults' }, 500).fit(request);
+        const messages = fitted.messages as Array<Record<string, unknown>>;
+        assert.match(messages[1].content as string, /characters truncated by the bridge\]$/);
+        assert.strictEqual(messages[2], request.messages[2]);
+    });
+
+    test('reserves the default reply budget when max_tokens is missing', async () => {
+        const request = { model: 'm', messages: [message('user', 3100)] };
+        const manager = createManager({ contextStrategy: 'dropOldest', contextReserveTokens: 950 }, 4000);
+        await assert.rejects(manager.fit(request), (error: unknown) => {
+            assert.ok(error instanceof ContextLengthError);
+            assert.strictEqual(error.reservedTokens, 950);
+            return true;
+        });
+    });
+
+    test('lowers max_tokens that would leave no room for the prompt', async () => {
+        const request = { model: 'm', max_completion_tokens: 8192, messages: [message('user', 500)] };
+        const fitted = await createManager({ contextStrategy: 'dropOldest' }, 8192).fit(request);
+
+        assert.strictEqual(fitted.max_completion_tokens, 8192 - 1024);
+        assert.strictEqual(fitted.messages, request.messages);
+    });
+
+    test('caps the default reserve for small context windows', async () => {
+        const request = { model: 'm', messages: [message('user', 1000)] };
+        const fitted = await createManager({ contextStrategy: 'dropOldest', contextReserveTokens: 4000 }, 4096).fit(request);
+        assert.strictEqual(fitted, request);
+    });
+});
@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import { PassThrough } from 'stream';
+import {
+    adaptOllamaChatResponse,
+    fromOllamaChatResponse,
+    fromOllamaTags,
+    OllamaStreamTranslator,
+    toOllamaChatRequest
+} from '../../services/OllamaAdapter';
+import { HttpResponse } from '../../utils/httpClient';
+import { SSE_DONE, SseParser } from '../../utils/sse';
+
+function parseData(output: string): string[] {
+    const parser = new SseParser();
+    return [...parser.feed(output), ...parser.flush()].map(event => event.data);
+}
+
+suite('OllamaAdapter', () => {
+    test('maps sampling parameters, images and tool calls to an Ollama chat request', () => {
+        const request = toOllamaChatRequest({
+            model: 'llama3',
+            stream: true,
+            temperature: 0.2,
+            max_tokens: 64,
+            messages: [
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: 'Describe ' },
+                        { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }
+                    ]
+                },
+                { role: 'assistant', content: null, tool_calls: [{ function: { name: 'look', arguments: '{"x":1}' } }] }
+            ],
+            response_format: { type: 'json_object' }
+        }, { num_ctx: 8192, keep_alive: '5m' });
+
+        assert.deepStrictEqual(request.options, { num_ctx: 8192, temperature: 0.2, num_predict: 64 });
+        assert.strictEqual(request.keep_alive, '5m');
+        assert.strictEqual(request.format, 'json');
+        assert.deepStrictEqual(request.messages, [
+            { role: 'user', content: 'Describe ', images: ['AAAA'] },
+            { role: 'assistant', content: '', tool_calls: [{ function: { name: 'look', arguments: { x: 1 } } }] }
+        ]);
+    });
+
+    test('maps a non-streaming response to a chat completion', () => {
+        const completion = fromOllamaChatResponse({
+            message: { content: 'Hello', thinking: 'hmm' },
+            done: true,
+            done_reason: 'length',
+            prompt_eval_count: 3,
+            eval_count: 4
+        }, 'llama3');
+        const choices = completion.choices as Array<Record<string, unknown>>;
+
+        assert.deepStrictEqual(choices[0].message, { role: 'assistant', content: 'Hello', reasoning_content: 'hmm' });
+        assert.strictEqual(choices[0].finish_reason, 'length');
+        assert.deepStrictEqual(completion.usage, { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 });
+    });
+
+    test('lists tags as models', () => {
+        assert.deepStrictEqual(fromOllamaTags({ models: [{ name: 'qwen3:8b' }] }), [
+            { id: 'qwen3:8b', object: 'model', created: 0, owned_by: 'ollama' }
+        ]);
+    });
+
+    test('translates NDJSON split across chunks into SSE chat chunks', () => {
+        const translator = new OllamaStreamTranslator('llama3');
+        const lines = [
+            JSON.stringify({ message: { content: 'Hel' } }),
+            JSON.stringify({ message: { content: 'lo' } }),
+            JSON.stringify({ message: { content: '' }, done: true, prompt_eval_count: 1, eval_count: 2 })
+        ].join('\n');
+
+        const output = translator.translate(Buffer.from(lines.slice(0, 10))) +
+            translator.translate(Buffer.from(lines.slice(10))) +
+            translator.finish();
+        const data = parseData(output);
+
+        assert.strictEqual(data[data.length - 1], SSE_DONE);
+        const chunks = data.slice(0, -1).map(item => JSON.parse(item));
+        const text = chunks.map(chunk => chunk.choices[0]?.delta?.content ?? '').join('');
+        assert.strictEqual(text, 'Hello');
+        assert.strictEqual(chunks[0].choices[0].delta.role, 'assistant');
+        assert.strictEqual(chunks[chunks.length - 2].choices[0].finish_reason, 'stop');
+        assert.deepStrictEqual(chunks[chunks.length - 1].usage, { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 });
+    });
+
+    test('reports unreadable stream lines as SSE errors and keeps translating', () => {
+        const translator = new OllamaStreamTranslator('llama3');
+        const output = translator.translate(Buffer.from('{"message":\n' + JSON.stringify({ message: { content: 'ok' } }) + '\n'));
+        const data = parseData(output).map(item => JSON.parse(item));
+
+        assert.strictEqual(data[0].error.type, 'provider_error');
+        assert.match(data[0].error.message, /unreadable stream line/);
+        assert.strictEqual(data[1].choices[0].delta.content, 'ok');
+    });
+
+    test('forwards upstream stream errors to the translated body', async () => {
+        const upstream = new PassThrough();
+        const response = {
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            headers: new Map<string, string>(),
+            body: upstream
+        } as unknown as HttpResponse;
+
+        const adapted = await adaptOllamaChatResponse(response, 'llama3', true);
+        const failed = new Promise<Error>(resolve => adapted.body!.on('error', resolve));
+        upstream.destroy(new Error('socket hang up'));
+
+        assert.strictEqual((await failed).message, 'socket hang up');
+    });
+});
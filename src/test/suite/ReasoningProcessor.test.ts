@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { ReasoningProcessor } from '../../services/ReasoningProcessor';
+import { ChatCompletionChunk } from '../../types';
+
+function chunk(delta: Record<string, unknown>, finishReason: string | null = null, usage?: Record<string, number>): ChatCompletionChunk {
+    return {
+        id: 'chatcmpl-1',
+        object: 'chat.completion.chunk',
+        created: 1,
+        model: 'local',
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+        ...(usage ? { usage } : {})
+    } as unknown as ChatCompletionChunk;
+}
+
+function collect(processor: ReasoningProcessor, chunks: ChatCompletionChunk[]): ChatCompletionChunk[] {
+    return [...chunks.flatMap(item => processor.processChunk(item)), ...processor.flush()];
+}
+
+suite('ReasoningProcessor', () => {
+    test('moves think tags split across chunks into reasoning_content', () => {
+        const output = collect(new ReasoningProcessor('separate'), [
+            chunk({ content: '<thi' }),
+            chunk({ content: 'nk>plan</think>\n\nAnswer' }),
+            chunk({}, 'stop')
+        ]);
+
+        const reasoning = output.map(item => item.choices[0].delta.reasoning_content ?? '').join('');
+        const content = output.map(item => item.choices[0].delta.content ?? '').join('');
+        assert.strictEqual(reasoning, 'plan');
+        assert.strictEqual(content, 'Answer');
+    });
+
+    test('strips reasoning fields and tags', () => {
+        const output = collect(new ReasoningProcessor('strip'), [
+            chunk({ reasoning_content: 'hidden' }),
+            chunk({ content: '<think>more</think>Visible' }, 'stop')
+        ]);
+
+        assert.ok(output.every(item => item.choices[0].delta.reasoning_content === undefined));
+        assert.strictEqual(output.map(item => item.choices[0].delta.content ?? '').join(''), 'Visible');
+    });
+
+    test('keeps usage reported on the finishing chunk', () => {
+        const usage = { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 };
+        const output = collect(new ReasoningProcessor('collapse'), [
+            chunk({ content: '<think>plan</think>Done' }),
+            chunk({}, 'stop', usage)
+        ]);
+
+        const last = output[output.length - 1];
+        assert.deepStrictEqual(last.usage, usage);
+        assert.strictEqual(last.choices[0].finish_reason, 'stop');
+    });
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ResponseCache } from '../../services/ResponseCache';
+import { DEFAULT_CONFIGURATION, IConfigurationManager, UpstreamProvider } from '../../types';
+
+const CHAT_PATH = '/v1/chat/completions';
+const LOCAL: UpstreamProvider = { name: 'default', url: 'http://localhost:1234', flavor: 'openai' };
+
+function createCache(): ResponseCache {
+    const config = { ...DEFAULT_CONFIGURATION, responseCacheEnabled: true, responseCacheDiskEnabled: false };
+    const configManager = { getConfiguration: () => config } as unknown as IConfigurationManager;
+    return new ResponseCache({ fsPath: '/nonexistent/cursor-provider-bridge' } as vscode.Uri, configManager);
+}
+
+suite('ResponseCache', () => {
+    test('only caches deterministic chat requests unless asked to', () => {
+        const cache = createCache();
+        const body = JSON.stringify({ model: 'm', temperature: 0.7, messages: [] });
+
+        assert.strictEqual(cache.getKey(CHAT_PATH, body, LOCAL), null);
+        assert.notStrictEqual(cache.getKey(CHAT_PATH, body, LOCAL, 'true'), null);
+        assert.strictEqual(cache.getKey(CHAT_PATH, JSON.stringify({ model: 'm', temperature: 0 }), LOCAL, 'no-cache'), null);
+        assert.strictEqual(cache.getKey('/v1/embeddings', JSON.stringify({ model: 'm', temperature: 0 }), LOCAL), null);
+    });
+
+    test('ignores key order and per-user fields', () => {
+        const cache = createCache();
+        const first = cache.getKey(CHAT_PATH, JSON.stringify({ model: 'm', temperature: 0, user: 'a' }), LOCAL);
+        const second = cache.getKey(CHAT_PATH, JSON.stringify({ temperature: 0, model: 'm', user: 'b' }), LOCAL);
+        assert.strictEqual(first, second);
+    });
+
+    test('separates entries by upstream provider', () => {
+        const cache = createCache();
+        const body = JSON.stringify({ model: 'm', temperature: 0 });
+        const moved = { ...LOCAL, url: 'http://gpu-box:1234' };
+
+        assert.notStrictEqual(cache.getKey(CHAT_PATH, body, LOCAL), cache.getKey(CHAT_PATH, body, moved));
+    });
+});
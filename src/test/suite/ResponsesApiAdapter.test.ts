@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import {
+    fromChatCompletion,
+    ResponsesStreamTranslator,
+    toChatCompletionRequest,
+    validateResponsesRequest
+} from '../../services/ResponsesApiAdapter';
+import { ChatCompletionResponse } from '../../types';
+import { getStreamErrorMessage } from '../../utils/chatStream';
+import { SseParser } from '../../utils/sse';
+
+function parseEvents(output: string): Array<{ event?: string; data: Record<string, unknown> }> {
+    const parser = new SseParser();
+    return [...parser.feed(output), ...parser.flush()].map(event => ({ event: event.event, data: JSON.parse(event.data) }));
+}
+
+suite('ResponsesApiAdapter', () => {
+    test('rejects previous_response_id', () => {
+        const error = validateResponsesRequest({ model: 'm', input: 'hi', previous_response_id: 'resp_1' });
+        assert.match(error ?? '', /previous_response_id/);
+    });
+
+    test('converts instructions and input items into chat messages', () => {
+        const body = toChatCompletionRequest({
+            model: 'gpt',
+            instructions: 'Be brief',
+            input: [
+                { role: 'developer', content: 'Use tools' },
+                { role: 'user', content: [{ type: 'input_text', text: 'Weather?' }] },
+                { type: 'reasoning' },
+                { type: 'function_call', call_id: 'call_1', name: 'weather', arguments: '{}' },
+                { type: 'function_call', call_id: 'call_2', name: 'time', arguments: '{}' },
+                { type: 'function_call_output', call_id: 'call_1', output: 'Sunny' }
+            ],
+            tools: [{ type: 'function', name: 'weather' }, { type: 'web_search' }],
+            max_output_tokens: 50,
+            text: { format: { type: 'json_object' } }
+        }, 'local-model');
+
+        assert.deepStrictEqual(body.messages, [
+            { role: 'system', content: 'Be brief' },
+            { role: 'system', content: 'Use tools' },
+            { role: 'user', content: 'Weather?' },
+            {
+                role: 'assistant',
+                content: null,
+                tool_calls: [
+                    { id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{}' } },
+                    { id: 'call_2', type: 'function', function: { name: 'time', arguments: '{}' } }
+                ]
+            },
+            { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' }
+        ]);
+        assert.strictEqual(body.max_tokens, 50);
+        assert.strictEqual((body.tools as unknown[]).length, 1);
+        assert.deepStrictEqual(body.response_format, { type: 'json_object' });
+    });
+
+    test('marks truncated completions as incomplete', () => {
+        const response = fromChatCompletion({
+            choices: [{ message: { content: 'Partial' }, finish_reason: 'length' }],
+            usage: { prompt_tokens: 2, completion_tokens: 3 }
+        } as unknown as ChatCompletionResponse, { model: 'gpt', input: 'hi' });
+
+        assert.strictEqual(response.status, 'incomplete');
+        assert.deepStrictEqual(response.usage, { input_tokens: 2, output_tokens: 3, total_tokens: 5 });
+        assert.strictEqual((response.output as Array<Record<string, unknown>>)[0].type, 'message');
+    });
+
+    test('streams text and function calls as output items', () => {
+        const translator = new ResponsesStreamTranslator({ model: 'gpt', input: 'hi', stream: true });
+        const output = translator.start() +
+            translator.translate({ choices: [{ delta: { content: 'Hi' } }] } as never) +
+            translator.translate({
+                choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'weather', arguments: '{"a":' } }] } }]
+            } as never) +
+            translator.translate({ choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '1}' } }] } }] } as never) +
+            translator.translate({ choices: [{ delta: {}, finish_reason: 'tool_calls' }] } as never) +
+            translator.finish();
+
+        const events = parseEvents(output);
+        const completed = events[events.length - 1];
+        assert.strictEqual(events[0].event, 'response.created');
+        assert.strictEqual(completed.event, 'response.completed');
+
+        const items = (completed.data.response as Record<string, unknown>).output as Array<Record<string, unknown>>;
+        assert.deepStrictEqual(items.map(item => item.type), ['message', 'function_call']);
+        assert.strictEqual(items[1].arguments, '{"a":1}');
+        assert.strictEqual(items[1].status, 'completed');
+    });
+
+    test('fails the response when the upstream stream reports an error', () => {
+        const translator = new ResponsesStreamTranslator({ model: 'gpt', input: 'hi', stream: true });
+        const upstream = JSON.parse('{"error":{"message":"model not found","type":"provider_error"}}');
+        const message = getStreamErrorMessage(upstream);
+        assert.strictEqual(message, 'model not found');
+
+        const events = parseEvents(translator.start() + translator.error(message!));
+        const failed = events[events.length - 1];
+        assert.strictEqual(failed.event, 'response.failed');
+        const response = failed.data.response as Record<string, unknown>;
+        assert.strictEqual(response.status, 'failed');
+        assert.deepStrictEqual(response.error, { code: 'server_error', message: 'model not found' });
+        assert.strictEqual(getStreamErrorMessage({ choices: [] }), null);
+    });
+});
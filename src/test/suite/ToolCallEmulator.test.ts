@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { ToolCallEmulationProcessor } from '../../services/ToolCallEmulator';
+import { ChatCompletionChunk } from '../../types';
+
+function chunk(delta: Record<string, unknown>, finishReason: string | null = null, usage?: Record<string, number>): ChatCompletionChunk {
+    return {
+        id: 'chatcmpl-1',
+        object: 'chat.completion.chunk',
+        created: 1,
+        model: 'local',
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+        ...(usage ? { usage } : {})
+    } as unknown as ChatCompletionChunk;
+}
+
+suite('ToolCallEmulationProcessor', () => {
+    const tools = [{ type: 'function' as const, function: { name: 'weather' } }];
+
+    test('turns a JSON reply into a streamed tool call', () => {
+        const processor = new ToolCallEmulationProcessor(tools);
+        const output = [
+            ...processor.processChunk(chunk({ role: 'assistant', content: '{"name": "weather", ' })),
+            ...processor.processChunk(chunk({ content: '"arguments": {"city": "Oslo"}}' })),
+            ...processor.processChunk(chunk({}, 'stop'))
+        ];
+
+        const toolCalls = output.flatMap(item => item.choices[0].delta.tool_calls ?? []);
+        assert.strictEqual(toolCalls.length, 1);
+        assert.strictEqual(toolCalls[0].function?.name, 'weather');
+        assert.deepStrictEqual(JSON.parse(toolCalls[0].function?.arguments ?? ''), { city: 'Oslo' });
+        assert.strictEqual(output[output.length - 1].choices[0].finish_reason, 'tool_calls');
+    });
+
+    test('keeps usage reported on the finishing chunk', () => {
+        const processor = new ToolCallEmulationProcessor(tools);
+        const usage = { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 };
+        processor.processChunk(chunk({ content: 'Sunny' }));
+        const output = processor.processChunk(chunk({ content: ' today' }, 'stop', usage));
+
+        assert.deepStrictEqual(output[output.length - 1].usage, usage);
+        assert.ok(output.slice(0, -1).every(item => item.usage === undefined));
+        assert.strictEqual(output[output.length - 1].choices[0].finish_reason, 'stop');
+    });
+});
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { getPublicProbeHeaders, isPublicProbeHealthy } from '../../services/TunnelWatchdog';
+import { BridgeConfiguration, DEFAULT_CONFIGURATION } from '../../types';
+
+function config(overrides: Partial<BridgeConfiguration> = {}): BridgeConfiguration {
+    return { ...DEFAULT_CONFIGURATION, tunnelProvider: 'ngrok', ...overrides };
+}
+
+suite('TunnelWatchdog public probe', () => {
+    test('sends ngrok basic auth credentials', () => {
+        const headers = getPublicProbeHeaders(config({ ngrokBasicAuthUsername: ' bridge ', ngrokBasicAuthPassword: 'secret-pass' }));
+        assert.strictEqual(headers.Authorization, `Basic ${Buffer.from('bridge:secret-pass').toString('base64')}`);
+        assert.strictEqual(getPublicProbeHeaders(config()).Authorization, undefined);
+        assert.strictEqual(getPublicProbeHeaders(config({
+            tunnelProvider: 'cloudflared',
+            ngrokBasicAuthUsername: 'bridge',
+            ngrokBasicAuthPassword: 'secret-pass'
+        })).Authorization, undefined);
+    });
+
+    test('requires a successful response from an unprotected tunnel', () => {
+        assert.strictEqual(isPublicProbeHealthy(200, config()), true);
+        assert.strictEqual(isPublicProbeHealthy(302, config()), false);
+        assert.strictEqual(isPublicProbeHealthy(403, config()), false);
+        assert.strictEqual(isPublicProbeHealthy(404, config()), false);
+    });
+
+    test('accepts challenges and redirects from a protected ngrok edge', () => {
+        const protectedEdges = [
+            config({ ngrokOAuthProvider: 'google' }),
+            config({ ngrokOidcIssuerUrl: 'https://issuer.example.com' }),
+            config({ ngrokIpAllowCidrs: ['10.0.0.0/8'] }),
+            config({ ngrokTrafficPolicy: 'on_http_request: []' })
+        ];
+
+        for (const edge of protectedEdges) {
+            assert.strictEqual(isPublicProbeHealthy(302, edge), true);
+            assert.strictEqual(isPublicProbeHealthy(401, edge), true);
+            assert.strictEqual(isPublicProbeHealthy(403, edge), true);
+            assert.strictEqual(isPublicProbeHealthy(502, edge), false);
+        }
+        assert.strictEqual(isPublicProbeHealthy(403, config({ tunnelProvider: 'ssh', ngrokIpAllowCidrs: ['10.0.0.0/8'] })), false);
+    });
+});
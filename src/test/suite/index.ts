@@ -0,0 +1,30 @@
+import * as path from 'path';
+import Mocha from 'mocha';
+import glob from 'glob';
+
+export function run(): Promise<void> {
+    const mocha = new Mocha({ ui: 'tdd', color: true });
+    const testsRoot = path.resolve(__dirname, '.');
+
+    return new Promise((resolve, reject) => {
+        glob('**/*.test.js', { cwd: testsRoot }, (error, files) => {
+            if (error) {
+                return reject(error);
+            }
+
+            files.forEach(file => mocha.addFile(path.resolve(testsRoot, file)));
+
+            try {
+                mocha.run(failures => {
+                    if (failures > 0) {
+                        reject(new Error(`${failures} tests failed.`));
+                    } else {
+                        resolve();
+                    }
+                });
+            } catch (runError) {
+                reject(runError);
+            }
+        });
+    });
+}
@@ -5,17 +5,141 @@ export interface BridgeConfiguration {
     readonly ngrokAuthToken: string;
     readonly ngrokDomain: string;
     readonly ngrokRegion: NgrokRegion;
+    readonly ngrokBasicAuthUsername: string;
+    readonly ngrokBasicAuthPassword: string;
+    readonly ngrokOAuthProvider: NgrokOAuthProvider;
+    readonly ngrokOidcIssuerUrl: string;
+    readonly ngrokOidcClientId: string;
+    readonly ngrokOidcClientSecret: string;
+    readonly ngrokAllowedEmails: ReadonlyArray<string>;
+    readonly ngrokAllowedDomains: ReadonlyArray<string>;
+    readonly ngrokIpAllowCidrs: ReadonlyArray<string>;
+    readonly ngrokIpDenyCidrs: ReadonlyArray<string>;
+    readonly ngrokTrafficPolicy: string;
+    readonly tunnelProvider: TunnelProviderName;
+    readonly cloudflaredPath: string;
+    readonly sshTunnelHost: string;
+    readonly sshTunnelRemotePort: number;
+    readonly sshTunnelPublicUrl: string;
+    readonly sshTunnelArgs: ReadonlyArray<string>;
+    readonly tunnelCommand: string;
+    readonly tunnelCommandUrlPattern: string;
+    readonly tunnelWatchdogIntervalSeconds: number;
+    readonly requireApiKey: boolean;
+    readonly bridgeApiKeys: ReadonlyArray<string>;
+    readonly proxyPort: number;
+    readonly autoSelectProxyPort: boolean;
+    readonly listenHost: string;
+    readonly modelAliases: ModelAliasMap;
+    readonly providers: ReadonlyArray<UpstreamProvider>;
+    readonly routingRules: ReadonlyArray<ModelRoutingRule>;
+    readonly failoverChain: ReadonlyArray<FailoverTarget>;
+    readonly toolEmulationModels: ReadonlyArray<string>;
+    readonly reasoningMode: ReasoningMode;
+    readonly historyEnabled: boolean;
+    readonly historyMaxSizeMB: number;
+    readonly historyRedactPatterns: ReadonlyArray<string>;
+    readonly allowRemoteMonitoring: boolean;
+    readonly maxConcurrentRequests: number;
+    readonly maxQueueWaitSeconds: number;
+    readonly prioritizeStreamingRequests: boolean;
+    readonly keepAliveIntervalSeconds: number;
+    readonly streamNonStreamingRequests: boolean;
+    readonly responseCacheEnabled: boolean;
+    readonly responseCacheMaxEntries: number;
+    readonly responseCacheTtlMinutes: number;
+    readonly responseCacheDiskEnabled: boolean;
+    readonly contextLengths: ContextLengthMap;
+    readonly contextStrategy: ContextStrategy;
+    readonly contextReserveTokens: number;
+    readonly samplingProfiles: ReadonlyArray<SamplingProfile>;
+    readonly providerFlavor: UpstreamFlavor;
+    readonly ollamaOptions: OllamaOptions;
+}
+
+export type UpstreamFlavor = 'openai' | 'ollama';
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export type ReasoningMode = 'passthrough' | 'strip' | 'collapse' | 'separate';
+
+export type ContextStrategy = 'off' | 'dropOldest' | 'truncateToolResults' | 'reject';
+
+export type OllamaOptions = Readonly<Record<string, unknown>>;
+
+export type SamplingProfileMode = 'fill' | 'override';
+
+export interface SamplingParameters {
+    readonly temperature?: number;
+    readonly top_p?: number;
+    readonly top_k?: number;
+    readonly min_p?: number;
+    readonly repeat_penalty?: number;
+    readonly stop?: ReadonlyArray<string>;
+    readonly max_tokens?: number;
+}
+
+export interface SamplingProfile extends SamplingParameters {
+    readonly model: string;
+    readonly mode: SamplingProfileMode;
+}
+
+export interface UpstreamProvider {
+    readonly name: string;
+    readonly url: string;
+    readonly flavor: UpstreamFlavor;
+    readonly maxConcurrentRequests?: number;
+}
+
+export interface ProviderHealth {
+    readonly name: string;
+    readonly reachable: boolean;
+    readonly modelCount: number;
+    readonly latencyMs: number;
+    readonly error?: string;
+}
+
+export interface ModelRoutingRule {
+    readonly model: string;
+    readonly provider: string;
 }
 
+export interface FailoverTarget {
+    readonly provider: string;
+    readonly model?: string;
+}
+
+export interface FailoverEvent {
+    readonly fromProvider: string;
+    readonly toProvider: string;
+    readonly reason: string;
+    readonly timestamp: number;
+}
+
+export type ModelAliasMap = Readonly<Record<string, string>>;
+
+export type ContextLengthMap = Readonly<Record<string, number>>;
+
 export type NgrokRegion = 'us' | 'eu' | 'au' | 'ap' | 'sa' | 'jp' | 'in';
 
+export type NgrokOAuthProvider = 'none' | 'google' | 'github' | 'microsoft' | 'gitlab' | 'linkedin' | 'twitch' | 'amazon' | 'facebook';
+
+export type TunnelProviderName = 'ngrok' | 'cloudflared' | 'ssh' | 'command' | 'none';
+
+export type TunnelState = 'starting' | 'running' | 'reconnecting' | 'stopped' | 'failed';
+
 export type ConfigurationKey = keyof BridgeConfiguration;
 
 export interface TunnelStatus {
     readonly isRunning: boolean;
     readonly isStarting?: boolean;
+    readonly isReconnecting?: boolean;
+    readonly provider?: TunnelProviderName;
     readonly url?: string;
+    readonly proxyPort?: number;
+    readonly lastFailover?: FailoverEvent;
     readonly error?: string;
+    readonly errorCode?: string;
 }
 
 export interface ModelInfo {
@@ -23,11 +147,43 @@ export interface ModelInfo {
     readonly object: string;
     readonly created: number;
     readonly owned_by: string;
+    readonly context_length?: number;
+    readonly max_context_length?: number;
+    readonly context_window?: number;
+}
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export type ChatContentPart =
+    | { readonly type: 'text'; readonly text: string }
+    | { readonly type: 'image_url'; readonly image_url: { readonly url: string; readonly detail?: string } };
+
+export interface ToolCall {
+    readonly id: string;
+    readonly type: 'function';
+    readonly function: {
+        readonly name: string;
+        readonly arguments: string;
+    };
+}
+
+export interface ToolDefinition {
+    readonly type: 'function';
+    readonly function: {
+        readonly name: string;
+        readonly description?: string;
+        readonly parameters?: unknown;
+    };
 }
 
+export type ToolChoice = 'none' | 'auto' | 'required' | { readonly type: 'function'; readonly function: { readonly name: string } };
+
 export interface ChatMessage {
-    readonly role: 'system' | 'user' | 'assistant';
-    readonly content: string;
+    readonly role: ChatRole;
+    readonly content: string | null | ReadonlyArray<ChatContentPart>;
+    readonly name?: string;
+    readonly tool_calls?: ReadonlyArray<ToolCall>;
+    readonly tool_call_id?: string;
 }
 
 export interface ChatCompletionRequest {
@@ -37,8 +193,30 @@ export interface ChatCompletionRequest {
     readonly stream?: boolean;
     readonly max_tokens?: number;
     readonly top_p?: number;
+    readonly top_k?: number;
+    readonly min_p?: number;
+    readonly repeat_penalty?: number;
+    readonly stop?: string | ReadonlyArray<string>;
     readonly frequency_penalty?: number;
     readonly presence_penalty?: number;
+    readonly tools?: ReadonlyArray<ToolDefinition>;
+    readonly tool_choice?: ToolChoice;
+}
+
+export interface ToolCallDelta {
+    readonly index?: number;
+    readonly id?: string;
+    readonly type?: 'function';
+    readonly function?: {
+        readonly name?: string;
+        readonly arguments?: string;
+    };
+}
+
+export interface CompletionUsage {
+    readonly prompt_tokens?: number;
+    readonly completion_tokens?: number;
+    readonly total_tokens?: number;
 }
 
 export interface ChatCompletionChunk {
@@ -49,11 +227,76 @@ export interface ChatCompletionChunk {
     readonly choices: ReadonlyArray<{
         readonly index: number;
         readonly delta: {
-            readonly content?: string;
+            readonly content?: string | null;
             readonly role?: string;
+            readonly tool_calls?: ReadonlyArray<ToolCallDelta>;
+            readonly [key: string]: unknown;
         };
         readonly finish_reason?: string | null;
     }>;
+    readonly usage?: CompletionUsage | null;
+}
+
+export interface ChatCompletionResponse {
+    readonly id?: string;
+    readonly object?: string;
+    readonly created?: number;
+    readonly model?: string;
+    readonly choices?: ReadonlyArray<{
+        readonly index?: number;
+        readonly message?: {
+            readonly role?: string;
+            readonly content?: string | null;
+            readonly tool_calls?: ReadonlyArray<ToolCallDelta>;
+            readonly [key: string]: unknown;
+        };
+        readonly finish_reason?: string | null;
+    }>;
+    readonly usage?: CompletionUsage;
+}
+
+export interface ChatResponseProcessor {
+    processChunk(chunk: ChatCompletionChunk): ChatCompletionChunk[];
+    flush(): ChatCompletionChunk[];
+    processCompletion(completion: ChatCompletionResponse): ChatCompletionResponse;
+}
+
+export interface RequestRecord {
+    readonly id: string;
+    readonly method: string;
+    readonly path: string;
+    readonly startedAt: number;
+    readonly model?: string;
+    readonly provider?: string;
+    readonly status?: number;
+    readonly durationMs?: number;
+    readonly timeToFirstTokenMs?: number;
+    readonly stream: boolean;
+    readonly usage?: CompletionUsage;
+    readonly requestBody?: string;
+    readonly responseBody?: string;
+    readonly error?: string;
+}
+
+export interface ModelUsageSummary {
+    readonly model: string;
+    readonly requests: number;
+    readonly promptTokens: number;
+    readonly completionTokens: number;
+    readonly averageTimeToFirstTokenMs?: number;
+    readonly averageTokensPerSecond?: number;
+}
+
+export interface UsageSummary extends Omit<ModelUsageSummary, 'model'> {
+    readonly since: number;
+    readonly models: ReadonlyArray<ModelUsageSummary>;
+}
+
+export interface ChatStreamTranslator {
+    start(): string;
+    translate(chunk: ChatCompletionChunk): string;
+    finish(): string;
+    error(message: string): string;
 }
 
 export interface ChatCompletionError {
@@ -87,6 +330,18 @@ export interface NgrokOptions {
     region: NgrokRegion;
     authtoken?: string;
     domain?: string;
+    basic_auth?: string;
+    oauth_provider?: string;
+    oauth_allow_emails?: string[];
+    oauth_allow_domains?: string[];
+    oidc_issuer_url?: string;
+    oidc_client_id?: string;
+    oidc_client_secret?: string;
+    oidc_allow_emails?: string[];
+    oidc_allow_domains?: string[];
+    ip_restriction_allow_cidrs?: string[];
+    ip_restriction_deny_cidrs?: string[];
+    traffic_policy?: string;
     [key: string]: unknown;
 }
 
@@ -100,8 +355,13 @@ export interface HttpResponse {
     text(): Promise<string>;
 }
 
+export interface TunnelHandle {
+    url(): string | null;
+    close(): Promise<void>;
+}
+
 export interface TunnelStartResult {
-    readonly tunnel: NgrokTunnel;
+    readonly tunnel: TunnelHandle;
     readonly url: string;
     readonly proxyPort: number;
 }
@@ -125,21 +385,35 @@ export interface IConfigurationManager {
     reload(): void;
     showConfigurationQuickPick(): Promise<void>;
     onConfigurationChanged(listener: (config: BridgeConfiguration) => void): { dispose(): void };
+    onDidChangeConfigurationKey(listener: (event: ConfigurationChangedEvent) => void): { dispose(): void };
+    ensureBridgeApiKey(): Promise<string>;
+    rotateBridgeApiKey(): Promise<string>;
     dispose(): void;
 }
 
 export interface IModelProvider {
+    getProviders(): ReadonlyArray<UpstreamProvider>;
+    resolveProvider(modelId: string): Promise<UpstreamProvider>;
     getModels(): Promise<ReadonlyArray<ModelInfo>>;
+    getProviderHealth(): Promise<ReadonlyArray<ProviderHealth>>;
+    getContextLength(modelId: string): Promise<number | undefined>;
     isModelLoaded(modelId: string): Promise<boolean>;
     createChatCompletion(request: ChatCompletionRequest): Promise<AsyncIterableIterator<ChatCompletionChunk>>;
 }
 
+export interface ITunnelProvider {
+    readonly name: TunnelProviderName;
+    connect(proxyUrl: string, config: BridgeConfiguration): Promise<TunnelHandle>;
+}
+
 export interface ITunnelManager {
     start(): Promise<void>;
     stop(): Promise<void>;
     restart(): Promise<void>;
     forceCleanup(): Promise<void>;
     getStatus(): TunnelStatus;
+    onDidChangeStatus(listener: (event: TunnelStatusChangedEvent) => void): { dispose(): void };
+    onDidReconnect(listener: (event: TunnelReconnectEvent) => void): { dispose(): void };
     dispose(): void;
 }
 
@@ -149,9 +423,18 @@ export interface ConfigurationChangedEvent {
     readonly newValue: unknown;
 }
 
+export interface TunnelReconnectEvent {
+    readonly reason: string;
+    readonly succeeded: boolean;
+    readonly previousUrl?: string;
+    readonly url?: string;
+}
+
 export interface TunnelStatusChangedEvent {
     readonly oldStatus: TunnelStatus;
     readonly newStatus: TunnelStatus;
+    readonly previousState: TunnelState;
+    readonly state: TunnelState;
 }
 
 export class BridgeError extends Error {
@@ -186,19 +469,113 @@ export class ModelError extends BridgeError {
     }
 }
 
+export class QueueTimeoutError extends BridgeError {
+    constructor(
+        public readonly provider: string,
+        public readonly retryAfterSeconds: number
+    ) {
+        super(`Too many concurrent requests for provider "${provider}". Please retry shortly.`, 'QUEUE_TIMEOUT');
+        this.name = 'QueueTimeoutError';
+    }
+}
+
+export class ContextLengthError extends BridgeError {
+    constructor(
+        public readonly model: string,
+        public readonly promptTokens: number,
+        public readonly reservedTokens: number,
+        public readonly contextLength: number
+    ) {
+        super(
+            `Model "${model}" has a context window of ${contextLength} tokens, but this request needs about ` +
+            `${promptTokens} tokens plus ${reservedTokens} reserved for the reply. Shorten the conversation or start a new one.`,
+            'CONTEXT_LENGTH_EXCEEDED'
+        );
+        this.name = 'ContextLengthError';
+    }
+}
+
 export const DEFAULT_CONFIGURATION: BridgeConfiguration = {
     providerUrl: 'http://localhost:1234',
     autoStart: false,
     showStatusBar: true,
     ngrokAuthToken: '',
     ngrokDomain: '',
-    ngrokRegion: 'us'
+    ngrokRegion: 'us',
+    ngrokBasicAuthUsername: '',
+    ngrokBasicAuthPassword: '',
+    ngrokOAuthProvider: 'none',
+    ngrokOidcIssuerUrl: '',
+    ngrokOidcClientId: '',
+    ngrokOidcClientSecret: '',
+    ngrokAllowedEmails: [],
+    ngrokAllowedDomains: [],
+    ngrokIpAllowCidrs: [],
+    ngrokIpDenyCidrs: [],
+    ngrokTrafficPolicy: '',
+    tunnelProvider: 'ngrok',
+    cloudflaredPath: 'cloudflared',
+    sshTunnelHost: '',
+    sshTunnelRemotePort: 8082,
+    sshTunnelPublicUrl: '',
+    sshTunnelArgs: [],
+    tunnelCommand: '',
+    tunnelCommandUrlPattern: 'https?://\\S+',
+    tunnelWatchdogIntervalSeconds: 60,
+    requireApiKey: true,
+    bridgeApiKeys: [],
+    proxyPort: 8082,
+    autoSelectProxyPort: false,
+    listenHost: 'localhost',
+    modelAliases: {},
+    providers: [],
+    routingRules: [],
+    failoverChain: [],
+    toolEmulationModels: [],
+    reasoningMode: 'passthrough',
+    historyEnabled: false,
+    historyMaxSizeMB: 50,
+    historyRedactPatterns: [],
+    allowRemoteMonitoring: false,
+    maxConcurrentRequests: 0,
+    maxQueueWaitSeconds: 120,
+    prioritizeStreamingRequests: false,
+    keepAliveIntervalSeconds: 15,
+    streamNonStreamingRequests: false,
+    responseCacheEnabled: false,
+    responseCacheMaxEntries: 200,
+    responseCacheTtlMinutes: 60,
+    responseCacheDiskEnabled: false,
+    contextLengths: {},
+    contextStrategy: 'off',
+    contextReserveTokens: 1024,
+    samplingProfiles: [],
+    providerFlavor: 'openai',
+    ollamaOptions: {}
 } as const;
 
+export const UPSTREAM_FLAVORS: ReadonlyArray<UpstreamFlavor> = ['openai', 'ollama'] as const;
+
+export const REQUEST_PRIORITIES: ReadonlyArray<RequestPriority> = ['high', 'normal', 'low'] as const;
+
+export const REASONING_MODES: ReadonlyArray<ReasoningMode> = ['passthrough', 'strip', 'collapse', 'separate'] as const;
+
+export const CONTEXT_STRATEGIES: ReadonlyArray<ContextStrategy> = ['off', 'dropOldest', 'truncateToolResults', 'reject'] as const;
+
+export const SAMPLING_PROFILE_MODES: ReadonlyArray<SamplingProfileMode> = ['fill', 'override'] as const;
+
+export const TUNNEL_PROVIDERS: ReadonlyArray<TunnelProviderName> = ['ngrok', 'cloudflared', 'ssh', 'command', 'none'] as const;
+
+export const DEFAULT_PROVIDER_NAME = 'default';
+
 export const NGROK_REGIONS: ReadonlyArray<NgrokRegion> = [
     'us', 'eu', 'au', 'ap', 'sa', 'jp', 'in'
 ] as const;
 
+export const NGROK_OAUTH_PROVIDERS: ReadonlyArray<NgrokOAuthProvider> = [
+    'none', 'google', 'github', 'microsoft', 'gitlab', 'linkedin', 'twitch', 'amazon', 'facebook'
+] as const;
+
 export interface RetryConfig {
     maxAttempts: number;
     initialDelay: number;
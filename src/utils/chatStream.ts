@@ -0,0 +1,225 @@
+import { Readable, Transform, TransformCallback } from 'stream';
+import {
+    ChatCompletionChunk,
+    ChatCompletionResponse,
+    ChatResponseProcessor,
+    CompletionUsage,
+    ToolCall
+} from '../types';
+import { HttpResponse } from './httpClient';
+import { formatSseEvent, SseEvent, SseParser, SSE_DONE } from './sse';
+import { readStreamText } from './streams';
+
+type ChunkDelta = ChatCompletionChunk['choices'][number]['delta'];
+
+export function createChunk(template: ChatCompletionChunk, delta: ChunkDelta, finishReason: string | null = null): ChatCompletionChunk {
+    return {
+        id: template.id,
+        object: template.object,
+        created: template.created,
+        model: template.model,
+        choices: [{ index: template.choices[0]?.index ?? 0, delta, finish_reason: finishReason }]
+    };
+}
+
+export function withTemplateUsage(template: ChatCompletionChunk, chunks: ChatCompletionChunk[]): ChatCompletionChunk[] {
+    if (!template.usage) {
+        return chunks;
+    }
+    const output = chunks.length > 0 ? chunks : [createChunk(template, {})];
+    return [...output.slice(0, -1), { ...output[output.length - 1], usage: template.usage }];
+}
+
+export function getStreamErrorMessage(event: unknown): string | null {
+    const error = (event as { error?: unknown } | null)?.error;
+    if (typeof error === 'string') {
+        return error;
+    }
+    if (error && typeof error === 'object') {
+        const message = (error as { message?: unknown }).message;
+        return typeof message === 'string' ? message : 'Provider reported an error';
+    }
+    return null;
+}
+
+function processChunk(processors: ReadonlyArray<ChatResponseProcessor>, chunk: ChatCompletionChunk, from = 0): ChatCompletionChunk[] {
+    let chunks = [chunk];
+    for (const processor of processors.slice(from)) {
+        chunks = chunks.flatMap(current => processor.processChunk(current));
+    }
+    return chunks;
+}
+
+function flushProcessors(processors: ReadonlyArray<ChatResponseProcessor>): ChatCompletionChunk[] {
+    return processors.flatMap((processor, index) =>
+        processor.flush().flatMap(chunk => processChunk(processors, chunk, index + 1)));
+}
+
+export function createChatStreamTransform(processors: ReadonlyArray<ChatResponseProcessor>): Transform {
+    const parser = new SseParser();
+    let flushed = false;
+
+    const serialize = (chunks: ChatCompletionChunk[]): string =>
+        chunks.map(chunk => formatSseEvent(chunk)).join('');
+
+    const handleEvent = (event: SseEvent): string => {
+        if (event.data === SSE_DONE) {
+            flushed = true;
+            return serialize(flushProcessors(processors)) + formatSseEvent(SSE_DONE);
+        }
+
+        let chunk: ChatCompletionChunk;
+        try {
+            chunk = JSON.parse(event.data) as ChatCompletionChunk;
+        } catch {
+            return formatSseEvent(event.data, event.event);
+        }
+
+        if (!Array.isArray(chunk?.choices)) {
+            return formatSseEvent(event.data, event.event);
+        }
+        return serialize(processChunk(processors, chunk));
+    };
+
+    return new Transform({
+        transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback): void {
+            try {
+                callback(null, parser.feed(chunk).map(handleEvent).join(''));
+            } catch (error) {
+                callback(error instanceof Error ? error : new Error(String(error)));
+            }
+        },
+        flush(callback: TransformCallback): void {
+            try {
+                let output = parser.flush().map(handleEvent).join('');
+                if (!flushed) {
+                    output += serialize(flushProcessors(processors));
+                }
+                callback(null, output);
+            } catch (error) {
+                callback(error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+    });
+}
+
+export async function applyChatProcessors(
+    response: HttpResponse,
+    processors: ReadonlyArray<ChatResponseProcessor>
+): Promise<HttpResponse> {
+    if (processors.length === 0 || !response.ok || !response.body) {
+        return response;
+    }
+
+    const headers = new Map(response.headers);
+    headers.delete('content-length');
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (contentType.includes('text/event-stream')) {
+        const transform = createChatStreamTransform(processors);
+        response.body.on('error', error => transform.destroy(error));
+        return { ...response, headers, body: response.body.pipe(transform) };
+    }
+
+    const text = await readStreamText(response.body);
+    let completion: ChatCompletionResponse;
+    try {
+        completion = JSON.parse(text) as ChatCompletionResponse;
+    } catch {
+        return { ...response, body: Readable.from([text]) };
+    }
+
+    const processed = processors.reduce((current, processor) => processor.processCompletion(current), completion);
+
+    return { ...response, headers, body: Readable.from([JSON.stringify(processed)]) };
+}
+
+export class ChatStreamAssembler {
+    private id = '';
+    private model = '';
+    private content = '';
+    private reasoning = '';
+    private finishReason: string | null = null;
+    private usage: CompletionUsage | undefined;
+    private readonly toolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+    add(chunk: ChatCompletionChunk): void {
+        this.id = this.id || chunk.id;
+        this.model = this.model || chunk.model;
+        this.usage = chunk.usage ?? this.usage;
+
+        for (const choice of chunk.choices ?? []) {
+            if (typeof choice.delta?.content === 'string') {
+                this.content += choice.delta.content;
+            }
+            if (typeof choice.delta?.reasoning_content === 'string') {
+                this.reasoning += choice.delta.reasoning_content;
+            }
+            for (const toolCall of choice.delta?.tool_calls ?? []) {
+                const index = toolCall.index ?? 0;
+                const existing = this.toolCalls.get(index) ?? { id: '', name: '', arguments: '' };
+                this.toolCalls.set(index, {
+                    id: existing.id || toolCall.id || '',
+                    name: existing.name + (toolCall.function?.name ?? ''),
+                    arguments: existing.arguments + (toolCall.function?.arguments ?? '')
+                });
+            }
+            this.finishReason = choice.finish_reason ?? this.finishReason;
+        }
+    }
+
+    hasOutput(): boolean {
+        return this.content.length > 0 || this.reasoning.length > 0 || this.toolCalls.size > 0;
+    }
+
+    getUsage(): CompletionUsage | undefined {
+        return this.usage;
+    }
+
+    toCompletion(): ChatCompletionResponse {
+        const toolCalls: ToolCall[] = [...this.toolCalls.values()].map(toolCall => ({
+            id: toolCall.id,
+            type: 'function',
+            function: { name: toolCall.name, arguments: toolCall.arguments }
+        }));
+
+        return {
+            id: this.id,
+            model: this.model,
+            choices: [{
+                index: 0,
+                message: {
+                    role: 'assistant',
+                    content: this.content || null,
+                    ...(this.reasoning ? { reasoning_content: this.reasoning } : {}),
+                    ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+                },
+                finish_reason: this.finishReason
+            }],
+            ...(this.usage ? { usage: this.usage } : {})
+        };
+    }
+}
+
+export async function assembleChatCompletion(body: NodeJS.ReadableStream): Promise<ChatCompletionResponse> {
+    const parser = new SseParser();
+    const assembler = new ChatStreamAssembler();
+    const addEvents = (events: SseEvent[]) => {
+        for (const event of events) {
+            if (event.data !== SSE_DONE) {
+                assembler.add(JSON.parse(event.data) as ChatCompletionChunk);
+            }
+        }
+    };
+
+    for await (const chunk of body) {
+        addEvents(parser.feed(chunk as Buffer));
+    }
+    addEvents(parser.flush());
+
+    return {
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        ...assembler.toCompletion()
+    };
+}
@@ -17,11 +17,18 @@ export interface HttpOptions {
     body?: string;
     timeout?: number;
     stream?: boolean;
+    signal?: AbortSignal;
 }
 
 export async function httpRequest(urlString: string, options: HttpOptions = {}): Promise<HttpResponse> {
     const controller = new AbortController();
     const timeoutId = options.timeout ? setTimeout(() => controller.abort(), options.timeout) : null;
+    const abortFromCaller = () => controller.abort();
+    if (options.signal?.aborted) {
+        controller.abort();
+    } else {
+        options.signal?.addEventListener('abort', abortFromCaller, { once: true });
+    }
 
     try {
         const response = await fetch(urlString, {
@@ -57,6 +64,7 @@ export async function httpRequest(urlString: string, options: HttpOptions = {}):
         if (timeoutId) {
             clearTimeout(timeoutId);
         }
+        options.signal?.removeEventListener('abort', abortFromCaller);
         throw error;
     }
 }
\ No newline at end of file
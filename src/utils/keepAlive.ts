@@ -0,0 +1,62 @@
+import * as http from 'http';
+
+export type KeepAliveMode = 'sse' | 'json';
+
+export const SSE_HEADERS: Readonly<Record<string, string>> = {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+};
+
+export class ResponseKeepAlive {
+    private timer: NodeJS.Timeout | null = null;
+    private committed = false;
+
+    constructor(
+        private readonly res: http.ServerResponse,
+        private readonly mode: KeepAliveMode,
+        private readonly intervalMs: number
+    ) {}
+
+    start(): this {
+        if (this.intervalMs > 0) {
+            this.timer = setInterval(() => this.beat(), this.intervalMs);
+            this.res.once('close', () => this.stop());
+        }
+        return this;
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    stopOnData(body: NodeJS.ReadableStream): void {
+        if (this.timer) {
+            body.once('data', () => this.stop());
+        }
+    }
+
+    hasCommittedResponse(): boolean {
+        return this.committed;
+    }
+
+    private beat(): void {
+        if (this.res.writableEnded || this.res.destroyed) {
+            this.stop();
+            return;
+        }
+
+        if (!this.res.headersSent) {
+            this.res.writeHead(200, this.mode === 'sse' ? SSE_HEADERS : { 'Content-Type': 'application/json' });
+            this.committed = true;
+        } else if (!this.committed) {
+            this.stop();
+            return;
+        }
+
+        this.res.write(this.mode === 'sse' ? ': keep-alive\n\n' : ' ');
+    }
+}
@@ -51,7 +51,7 @@ export class ExtensionLogger implements Logger {
         'password', 'token', 'auth', 'secret', 'key', 'credential', 
         'authorization', 'authtoken', 'ngrokauthtoken', 'apikey', 
         'api_key', 'accesstoken', 'access_token', 'refreshtoken', 
-        'refresh_token', 'privatekey', 'private_key'
+        'refresh_token', 'privatekey', 'private_key', 'bridgeapikeys'
     ]);
 
     private sanitizeObject(obj: unknown, depth = 0): unknown {
@@ -0,0 +1,36 @@
+import * as net from 'net';
+import * as os from 'os';
+
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+export function isWildcardHost(host: string): boolean {
+    return WILDCARD_HOSTS.includes(host);
+}
+
+export function isLoopbackHost(host: string): boolean {
+    return LOOPBACK_HOSTS.includes(host.replace(/^\[|\]$/g, '').toLowerCase());
+}
+
+export function formatUrlHost(host: string): string {
+    return host.includes(':') && !host.startsWith('[') ? `[${host}]` : host;
+}
+
+export function isValidCidr(cidr: string): boolean {
+    const [address, prefix, ...rest] = cidr.trim().split('/');
+    const family = net.isIP(address);
+    if (!family || prefix === undefined || rest.length > 0 || !/^\d{1,3}$/.test(prefix)) {
+        return false;
+    }
+    return Number(prefix) <= (family === 4 ? 32 : 128);
+}
+
+export function getLanAddress(): string | undefined {
+    for (const addresses of Object.values(os.networkInterfaces())) {
+        const address = addresses?.find(candidate => candidate.family === 'IPv4' && !candidate.internal);
+        if (address) {
+            return address.address;
+        }
+    }
+    return undefined;
+}
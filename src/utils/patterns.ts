@@ -0,0 +1,25 @@
+export function isWildcardPattern(pattern: string): boolean {
+    return pattern.includes('*');
+}
+
+export function matchWildcard(pattern: string, value: string): string[] | null {
+    if (!isWildcardPattern(pattern)) {
+        return pattern.toLowerCase() === value.toLowerCase() ? [] : null;
+    }
+
+    const source = pattern
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('(.*)');
+    const match = new RegExp(`^${source}$`, 'i').exec(value);
+    return match ? match.slice(1) : null;
+}
+
+export function matchesWildcard(pattern: string, value: string): boolean {
+    return matchWildcard(pattern, value) !== null;
+}
+
+export function expandWildcard(template: string, captures: ReadonlyArray<string>): string {
+    let index = 0;
+    return template.replace(/\*/g, () => captures[index++] ?? '');
+}
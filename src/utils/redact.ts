@@ -0,0 +1,34 @@
+const REDACTED = '[REDACTED]';
+
+const SECRET_PATTERNS: ReadonlyArray<RegExp> = [
+    /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    /\bBearer\s+[A-Za-z0-9._~+/-]+=*/gi,
+    /\b(?:sk|pk|rk)-[A-Za-z0-9_-]{16,}/g,
+    /\bcpb-[a-f0-9]{16,}/g,
+    /\bgh[pousr]_[A-Za-z0-9]{20,}/g,
+    /\bxox[abpr]-[A-Za-z0-9-]{10,}/g,
+    /\bAKIA[0-9A-Z]{16}\b/g,
+    /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g
+];
+
+export function redactSecrets(
+    text: string,
+    knownSecrets: ReadonlyArray<string> = [],
+    extraPatterns: ReadonlyArray<string> = []
+): string {
+    let redacted = text;
+
+    for (const secret of knownSecrets) {
+        if (secret) {
+            redacted = redacted.split(secret).join(REDACTED);
+        }
+    }
+    for (const pattern of SECRET_PATTERNS) {
+        redacted = redacted.replace(pattern, REDACTED);
+    }
+    for (const pattern of extraPatterns) {
+        redacted = redacted.replace(new RegExp(pattern, 'g'), REDACTED);
+    }
+
+    return redacted;
+}
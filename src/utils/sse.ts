@@ -0,0 +1,70 @@
+import { StringDecoder } from 'string_decoder';
+
+export interface SseEvent {
+    readonly event?: string;
+    readonly data: string;
+}
+
+export class SseParser {
+    private buffer = '';
+    private readonly decoder = new StringDecoder('utf8');
+
+    feed(chunk: string | Buffer): SseEvent[] {
+        this.buffer += typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+        const events: SseEvent[] = [];
+
+        let boundary = this.findBoundary();
+        while (boundary) {
+            const block = this.buffer.slice(0, boundary.index);
+            this.buffer = this.buffer.slice(boundary.index + boundary.length);
+
+            const event = this.parseBlock(block);
+            if (event) {
+                events.push(event);
+            }
+            boundary = this.findBoundary();
+        }
+
+        return events;
+    }
+
+    flush(): SseEvent[] {
+        const block = this.buffer + this.decoder.end();
+        this.buffer = '';
+        const event = this.parseBlock(block);
+        return event ? [event] : [];
+    }
+
+    private findBoundary(): { index: number; length: number } | null {
+        const match = /\r?\n\r?\n/.exec(this.buffer);
+        return match ? { index: match.index, length: match[0].length } : null;
+    }
+
+    private parseBlock(block: string): SseEvent | null {
+        let eventName: string | undefined;
+        const dataLines: string[] = [];
+
+        for (const line of block.split(/\r?\n/)) {
+            if (line.startsWith(':')) {
+                continue;
+            }
+            if (line.startsWith('event:')) {
+                eventName = line.slice(6).trim();
+            } else if (line.startsWith('data:')) {
+                dataLines.push(line.slice(5).replace(/^ /, ''));
+            }
+        }
+
+        if (dataLines.length === 0) {
+            return null;
+        }
+        return { event: eventName, data: dataLines.join('\n') };
+    }
+}
+
+export function formatSseEvent(data: unknown, event?: string): string {
+    const payload = typeof data === 'string' ? data : JSON.stringify(data);
+    return `${event ? `event: ${event}\n` : ''}data: ${payload}\n\n`;
+}
+
+export const SSE_DONE = '[DONE]';
@@ -0,0 +1,52 @@
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function contentText(content: unknown): string {
+    if (typeof content === 'string') {
+        return content;
+    }
+    if (Array.isArray(content)) {
+        return content.map(part => typeof part?.text === 'string' ? part.text : '').join('');
+    }
+    return '';
+}
+
+export function estimateMessageTokens(message: Record<string, unknown>): number {
+    const toolCalls = Array.isArray(message.tool_calls) ? JSON.stringify(message.tool_calls) : '';
+    return MESSAGE_OVERHEAD_TOKENS + estimateTokens(contentText(message.content) + toolCalls);
+}
+
+export function estimateRequestTokens(request: Record<string, unknown>): number {
+    const tools = Array.isArray(request.tools) ? estimateTokens(JSON.stringify(request.tools)) : 0;
+    const messages = Array.isArray(request.messages) ? request.messages as Array<Record<string, unknown>> : [];
+    return tools + messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+export function estimatePromptTokens(requestBody: string): number {
+    try {
+        const request = JSON.parse(requestBody) as Record<string, unknown>;
+        if (Array.isArray(request.messages)) {
+            return estimateRequestTokens(request);
+        }
+    } catch {
+        return estimateTokens(requestBody);
+    }
+    return estimateTokens(requestBody);
+}
+
+export function estimateCompletionTokens(responseBody: string): number {
+    try {
+        const response = JSON.parse(responseBody) as { choices?: Array<{ message?: Record<string, unknown> }> };
+        if (Array.isArray(response.choices)) {
+            return response.choices.reduce((total, choice) =>
+                total + (choice.message ? estimateMessageTokens(choice.message) - MESSAGE_OVERHEAD_TOKENS : 0), 0);
+        }
+    } catch {
+        return estimateTokens(responseBody);
+    }
+    return estimateTokens(responseBody);
+}